@@ -0,0 +1,15 @@
+import { useScrollSyncContext } from '../hooks/useScrollSyncContext';
+import { ScrollContainerProps } from '../types';
+
+/**
+ * ScrollContainer 组件渲染滚动容器，并将自身注册为 ScrollSyncProvider 的滚动根。
+ * 容器需要自行设置 overflow 等样式使其可滚动。
+ */
+export const ScrollContainer = ({ children, ...props }: ScrollContainerProps) => {
+  const { registerContainer } = useScrollSyncContext();
+  return (
+    <div {...props} ref={registerContainer}>
+      {children}
+    </div>
+  );
+};
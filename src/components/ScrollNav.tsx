@@ -0,0 +1,14 @@
+import { useScrollSyncContext } from '../hooks/useScrollSyncContext';
+import { ScrollNavProps } from '../types';
+
+/**
+ * ScrollNav 组件渲染导航栏容器，并将自身注册为 ScrollSyncProvider 的导航栏，用于计算激活线偏移量。
+ */
+export const ScrollNav = ({ children, ...props }: ScrollNavProps) => {
+  const { registerNav, getNavProps } = useScrollSyncContext();
+  return (
+    <nav {...getNavProps(props)} ref={registerNav}>
+      {children}
+    </nav>
+  );
+};
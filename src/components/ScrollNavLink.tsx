@@ -0,0 +1,22 @@
+import { useScrollSyncContext } from '../hooks/useScrollSyncContext';
+import { ScrollNavLinkProps } from '../types';
+
+/**
+ * ScrollNavLink 组件渲染指向某个区域的导航链接，点击时滚动到该区域。
+ * 激活状态通过 data-active 属性暴露，也可以通过渲染函数 children({ isActive, isInActivePath }) 获取。
+ */
+export const ScrollNavLink = ({ to, children, ...props }: ScrollNavLinkProps) => {
+  const { activeTab, activePath, getTabProps } = useScrollSyncContext();
+  const isActive = activeTab === to;
+  const isInActivePath = activePath.includes(to);
+  return (
+    <button
+      type="button"
+      data-active={isActive || undefined}
+      data-in-active-path={isInActivePath || undefined}
+      {...getTabProps(to, props)}
+    >
+      {typeof children === 'function' ? children({ isActive, isInActivePath }) : children}
+    </button>
+  );
+};
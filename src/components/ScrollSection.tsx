@@ -0,0 +1,10 @@
+import { useScrollSyncContext } from '../hooks/useScrollSyncContext';
+import { ScrollSectionProps } from '../types';
+
+/**
+ * ScrollSection 组件渲染一个内容区域，挂载时自动注册到 ScrollSyncProvider，卸载时自动注销。
+ */
+export const ScrollSection = ({ id, children, ...props }: ScrollSectionProps) => {
+  const { getSectionProps } = useScrollSyncContext();
+  return <section {...getSectionProps(id, props)}>{children}</section>;
+};
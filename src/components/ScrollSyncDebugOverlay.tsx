@@ -0,0 +1,133 @@
+import { useContext, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ScrollSyncContext } from '../context/ScrollSyncContext';
+import {
+  ScrollSyncDebugEvent,
+  ScrollSyncDebugOverlayProps,
+  ScrollSyncDebugSnapshot,
+} from '../types';
+
+// 面板中默认展示的最近调试记录条数
+const DEFAULT_TRACE_LIMIT = 5;
+// 激活线的粗细（像素）
+const ACTIVE_LINE_SIZE = 2;
+
+// 将沿滚动轴、相对于滚动根起始边的一段区间转换为视口中的定位样式
+const getSpanStyle = (snapshot: ScrollSyncDebugSnapshot, start: number, size: number): React.CSSProperties => {
+  const { axis, reversed, rootRect } = snapshot;
+  if (axis === 'y') {
+    return { position: 'absolute', top: rootRect.top + start, left: rootRect.left, width: rootRect.width, height: size };
+  }
+  // RTL 的 x 轴上偏移量从右边缘开始计算
+  const left = reversed ? rootRect.left + rootRect.width - start - size : rootRect.left + start;
+  return { position: 'absolute', top: rootRect.top, left, width: size, height: rootRect.height };
+};
+
+// 格式化数值，保留两位小数
+const formatNumber = (value: number | null): string => (value === null ? '–' : value.toFixed(2));
+
+// 将调试记录格式化为一行文本
+const formatDebugEvent = (event: ScrollSyncDebugEvent): string => {
+  if (event.type === 'ignored-programmatic-scroll') {
+    return `ignored (scrolling to ${event.targetId}): ${event.sectionIds.join(', ')}`;
+  }
+  const winner = event.winnerId ?? '(keep)';
+  const stickiness = event.stickinessOverride ? ' [stickiness]' : '';
+  return `${event.reason}: ${event.previousId} → ${winner}${stickiness} (${event.candidates.length} candidates)`;
+};
+
+// 调试面板的实际内容，订阅调试快照并绘制激活线、激活区域和每个区域的实时数据
+const DebugOverlayContent = ({ debug: debugProp, traceLimit = DEFAULT_TRACE_LIMIT }: ScrollSyncDebugOverlayProps) => {
+  const context = useContext(ScrollSyncContext);
+  const debug = debugProp !== undefined ? debugProp : context?.debug ?? null;
+  const [snapshot, setSnapshot] = useState<ScrollSyncDebugSnapshot | null>(null);
+  const [trace, setTrace] = useState<ScrollSyncDebugEvent[]>([]);
+
+  // useEffect 用于订阅调试快照，每次快照更新时同时刷新最近的调试记录
+  useEffect(() => {
+    if (!debug) return;
+    return debug.subscribe((nextSnapshot) => {
+      setSnapshot(nextSnapshot);
+      setTrace(debug.getTrace().slice(-traceLimit));
+    });
+  }, [debug, traceLimit]);
+
+  if (!debug || !snapshot || typeof document === 'undefined') return null;
+
+  const viewportSize = snapshot.axis === 'y' ? snapshot.rootRect.height : snapshot.rootRect.width;
+  // 只为可视范围内的区域绘制标签
+  const visibleSections = snapshot.sections.filter(
+    (section) => section.endOffset > 0 && section.startOffset < viewportSize
+  );
+
+  return createPortal(
+    <div
+      aria-hidden="true"
+      data-scroll-sync-debug=""
+      style={{ position: 'fixed', inset: 0, pointerEvents: 'none', zIndex: 2147483647, font: '11px/1.4 monospace' }}
+    >
+      {/* 激活区域 */}
+      <div
+        style={{
+          ...getSpanStyle(snapshot, snapshot.activeLineOffset, snapshot.activeZoneSize),
+          background: 'rgba(59, 130, 246, 0.12)',
+        }}
+      />
+      {/* 激活线 */}
+      <div
+        style={{
+          ...getSpanStyle(snapshot, snapshot.activeLineOffset, ACTIVE_LINE_SIZE),
+          background: snapshot.isProgrammaticScroll ? '#f59e0b' : '#ef4444',
+        }}
+      />
+      {/* 区域标签：交叉比例与当前策略下的得分 */}
+      {visibleSections.map((section) => {
+        const isActive = section.id === snapshot.activeId;
+        const { position, top, left } = getSpanStyle(snapshot, Math.max(0, section.startOffset), 0);
+        return (
+          <div
+            key={section.id}
+            style={{
+              position,
+              top,
+              left,
+              padding: '1px 4px',
+              color: '#fff',
+              background: isActive ? 'rgba(22, 163, 74, 0.85)' : 'rgba(17, 24, 39, 0.75)',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {`${section.id} · ratio ${formatNumber(section.intersectionRatio)} · score ${formatNumber(section.score)}`}
+          </div>
+        );
+      })}
+      {/* 最近的调试记录 */}
+      {trace.length > 0 && (
+        <ol
+          style={{
+            position: 'absolute',
+            right: 8,
+            bottom: 8,
+            maxWidth: 420,
+            margin: 0,
+            padding: '4px 8px 4px 24px',
+            color: '#fff',
+            background: 'rgba(17, 24, 39, 0.85)',
+          }}
+        >
+          {trace.map((event, index) => (
+            <li key={`${event.time}-${index}`}>{formatDebugEvent(event)}</li>
+          ))}
+        </ol>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+/**
+ * ScrollSyncDebugOverlay 组件在页面上绘制激活线、激活区域，以及每个区域的实时交叉比例和得分，并列出最近的激活决策。
+ * 需要开启 debug 选项；生产环境下不渲染任何内容，相关代码会被打包工具移除。
+ */
+export const ScrollSyncDebugOverlay = (props: ScrollSyncDebugOverlayProps) =>
+  process.env.NODE_ENV === 'production' ? null : <DebugOverlayContent {...props} />;
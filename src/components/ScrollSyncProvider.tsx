@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useScrollSync } from '../hooks/useScrollSync';
+import { ScrollSyncContext } from '../context/ScrollSyncContext';
+import { ScrollSyncContextValue, ScrollSyncProviderProps, SectionsDefinition } from '../types';
+
+// 未传入 sections 时使用的空区域定义（保持引用稳定，避免 IntersectionObserver 反复重建）
+const EMPTY_SECTIONS: SectionsDefinition = {};
+// 尚未确定是否渲染了 ScrollContainer 时传给 hook 的容器 ref
+// hook 在提供了 scrollContainerRef 但元素不存在时不会建立观察或滚动，从而不会误用 window 作为滚动根
+const PENDING_CONTAINER_REF: React.RefObject<HTMLElement | null> = { current: null };
+
+/**
+ * ScrollSyncProvider 组件持有滚动同步的状态，并通过 context 提供给 ScrollContainer、ScrollSection、ScrollNavLink 等组件。
+ * 未渲染 ScrollContainer 时使用 window 滚动。
+ */
+export const ScrollSyncProvider = ({
+  sections = EMPTY_SECTIONS,
+  children,
+  ...scrollSyncProps
+}: ScrollSyncProviderProps) => {
+  // 使用 state 保存容器和导航栏元素，使其挂载或卸载时 hook 能够重新建立观察
+  // 容器为 undefined 表示首次提交完成前尚未确定是否渲染了 ScrollContainer，null 表示没有容器（window 模式）
+  const [containerElement, setContainerElement] = useState<HTMLElement | null | undefined>(undefined);
+  const [navElement, setNavElement] = useState<HTMLElement | null>(null);
+  // useRef 用于同步记录已注册的容器，ref 回调先于 effect 执行，effect 中据此判断是否渲染了 ScrollContainer
+  const containerElementRef = useRef<HTMLElement | null>(null);
+
+  // useCallback 用于注册滚动容器元素（由 ScrollContainer 调用）
+  const registerContainer = useCallback((element: HTMLElement | null) => {
+    containerElementRef.current = element;
+    setContainerElement(element);
+  }, []);
+
+  // useEffect 用于在首次提交后确定是否渲染了 ScrollContainer：此时仍未注册则进入 window 模式
+  useEffect(() => {
+    if (!containerElementRef.current) {
+      setContainerElement((current) => (current === undefined ? null : current));
+    }
+  }, []);
+
+  // 确定前传入 PENDING_CONTAINER_REF，ScrollContainer 挂载后传入容器，否则不传入 scrollContainerRef 进入 window 模式
+  const scrollContainerRef = useMemo(() => {
+    if (containerElement === undefined) return PENDING_CONTAINER_REF;
+    return containerElement ? { current: containerElement } : undefined;
+  }, [containerElement]);
+  const navTabsRef = useMemo(() => (navElement ? { current: navElement } : undefined), [navElement]);
+
+  const {
+    activeTab,
+    activePath,
+    handleTabClick,
+    progress,
+    subscribeProgress,
+    registerSection,
+    getNavProps,
+    getTabProps,
+    getSectionProps,
+    getDwellTimes,
+    debug,
+  } = useScrollSync({ ...scrollSyncProps, sections, scrollContainerRef, navTabsRef });
+
+  // useMemo 用于避免在 hook 返回值未变化时让所有消费者重新渲染
+  const contextValue = useMemo<ScrollSyncContextValue>(() => ({
+    activeTab,
+    activePath,
+    handleTabClick,
+    progress,
+    subscribeProgress,
+    registerSection,
+    getNavProps,
+    getTabProps,
+    getSectionProps,
+    getDwellTimes,
+    debug,
+    registerContainer,
+    registerNav: setNavElement,
+  }), [
+    activeTab,
+    activePath,
+    handleTabClick,
+    progress,
+    subscribeProgress,
+    registerSection,
+    getNavProps,
+    getTabProps,
+    getSectionProps,
+    getDwellTimes,
+    debug,
+    registerContainer,
+  ]);
+
+  return <ScrollSyncContext.Provider value={contextValue}>{children}</ScrollSyncContext.Provider>;
+};
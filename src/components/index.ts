@@ -0,0 +1,6 @@
+export * from './ScrollSyncProvider';
+export * from './ScrollContainer';
+export * from './ScrollNav';
+export * from './ScrollSection';
+export * from './ScrollNavLink';
+export * from './ScrollSyncDebugOverlay';
@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { ScrollSyncContextValue } from '../types';
+
+// ScrollSyncProvider 提供的 context，在 Provider 之外为 null
+export const ScrollSyncContext = createContext<ScrollSyncContextValue | null>(null);
@@ -1 +1,3 @@
 export * from './useScrollSync';
+export * from './useScrollSyncContext';
+export * from './useLinkedScroll';
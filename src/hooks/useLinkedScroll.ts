@@ -0,0 +1,146 @@
+import { useEffect, useRef, useCallback } from 'react';
+import {
+  ScrollAxis,
+  isReversedAxis,
+  isScrolledToEnd,
+  getScrollPosition,
+  clampScrollPosition,
+  scrollRootTo,
+} from '../utils/scrollRoot'; // 导入滚动根相关的工具函数
+import { getSectionAnchor, getAnchorScrollPosition } from '../utils/linkedScroll'; // 导入联动滚动锚点的计算
+import { UseLinkedScrollProps, UseLinkedScrollReturn } from '../types'; // 导入类型定义
+
+// 默认的滚动轴，'y' 表示纵向滚动
+const DEFAULT_AXIS: ScrollAxis = 'y';
+// 联动写入的滚动位置与实际滚动位置之间允许的误差（像素），用于识别联动产生的滚动事件
+const ECHO_TOLERANCE = 1;
+
+/**
+ * useLinkedScroll Hook 用于在多个包含相同区域的窗格之间联动滚动（如 Markdown 源码与预览、两种语言版本的合同）。
+ * 一个窗格滚动时，其他窗格滚动到对应区域内的相同相对位置。
+ * @param panes - 各窗格的滚动容器引用。
+ * @param sections - 各窗格共有的区域ID，按文档顺序排列。
+ * @param options - （可选）联动配置选项。
+ * @returns 返回注册区域的函数 (registerSection) 和手动同步的函数 (syncFrom)。
+ */
+export const useLinkedScroll = ({ panes, sections, options = {} }: UseLinkedScrollProps): UseLinkedScrollReturn => {
+  const { axis = DEFAULT_AXIS, activeLineOffset = 0, enabled = true } = options;
+
+  // useRef 用于存储每个窗格中已注册的区域元素：窗格索引 -> (区域ID -> 元素)
+  const paneSectionsRef = useRef(new Map<number, Map<string, HTMLElement>>());
+  // useRef 用于缓存每个窗格、每个区域的 ref 回调，保证引用稳定
+  const sectionRefCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  // useRef 用于记录联动写入每个窗格的滚动位置
+  // 窗格随后触发的滚动事件如果停在该位置，说明是联动产生的“回声”，不应再反向同步其他窗格，避免窗格之间来回触发
+  const expectedPositionsRef = useRef(new Map<number, number>());
+
+  // useCallback 用于返回窗格中某个区域的 ref 回调
+  const registerSection = useCallback((paneIndex: number, sectionId: string) => {
+    const key = `${paneIndex}:${sectionId}`;
+    const refCallbacks = sectionRefCallbacksRef.current;
+    let refCallback = refCallbacks.get(key);
+    if (!refCallback) {
+      refCallback = (element: HTMLElement | null) => {
+        let paneSections = paneSectionsRef.current.get(paneIndex);
+        if (!paneSections) {
+          paneSections = new Map();
+          paneSectionsRef.current.set(paneIndex, paneSections);
+        }
+        if (element) {
+          paneSections.set(sectionId, element);
+        } else {
+          paneSections.delete(sectionId);
+        }
+      };
+      refCallbacks.set(key, refCallback);
+    }
+    return refCallback;
+  }, []);
+
+  // useCallback 用于按 sections 的顺序获取窗格中已挂载的区域元素
+  const getPaneElements = useCallback((paneIndex: number): Map<string, HTMLElement> => {
+    const paneSections = paneSectionsRef.current.get(paneIndex);
+    const elements = new Map<string, HTMLElement>();
+    sections.forEach((id) => {
+      const element = paneSections?.get(id);
+      if (element) elements.set(id, element);
+    });
+    return elements;
+  }, [sections]);
+
+  // useCallback 用于以指定窗格为源，将其他窗格滚动到对应位置
+  const syncFrom = useCallback((sourceIndex: number) => {
+    const source = panes[sourceIndex]?.current;
+    if (!source) return;
+    const sourceReversed = isReversedAxis(source, axis);
+    const sourcePosition = getScrollPosition(source, axis);
+    // 源窗格位于起点或末端时，其他窗格同样滚动到起点或末端，避免末尾较短的区域永远无法对齐
+    const atStart = sourcePosition === 0;
+    const atEnd = !atStart && isScrolledToEnd(source, axis);
+    const anchor = getSectionAnchor(source, getPaneElements(sourceIndex), axis, sourceReversed, activeLineOffset);
+
+    panes.forEach((paneRef, paneIndex) => {
+      const pane = paneRef.current;
+      if (paneIndex === sourceIndex || !pane) return;
+      const reversed = isReversedAxis(pane, axis);
+
+      let targetPosition: number;
+      if (atStart) {
+        targetPosition = 0;
+      } else if (atEnd) {
+        targetPosition = clampScrollPosition(pane, reversed ? -Infinity : Infinity, axis, reversed);
+      } else {
+        const element = anchor && getPaneElements(paneIndex).get(anchor.id);
+        if (!anchor || !element) return; // 该窗格中没有对应的区域时不同步
+        targetPosition = getAnchorScrollPosition(element, pane, anchor.progress, axis, reversed, activeLineOffset);
+      }
+
+      targetPosition = clampScrollPosition(pane, targetPosition, axis, reversed);
+      if (Math.abs(getScrollPosition(pane, axis) - targetPosition) < ECHO_TOLERANCE) return; // 已在目标位置
+      // 使用 'instant'，避免 CSS scroll-behavior: smooth 导致跟随的窗格滞后
+      scrollRootTo(pane, targetPosition, 'instant', axis);
+      // 记录浏览器实际采用的位置（可能经过取整）
+      expectedPositionsRef.current.set(paneIndex, getScrollPosition(pane, axis));
+    });
+  }, [panes, axis, activeLineOffset, getPaneElements]);
+
+  // useEffect 用于监听各窗格的滚动事件，按动画帧批量同步
+  useEffect(() => {
+    if (!enabled) return;
+    const expectedPositions = expectedPositionsRef.current;
+    const cleanups: (() => void)[] = [];
+
+    panes.forEach((paneRef, paneIndex) => {
+      const pane = paneRef.current;
+      if (!pane) return;
+      let frameId: number | null = null;
+
+      const handleScroll = () => {
+        if (frameId !== null) return;
+        frameId = requestAnimationFrame(() => {
+          frameId = null;
+          const expected = expectedPositions.get(paneIndex);
+          if (expected !== undefined) {
+            expectedPositions.delete(paneIndex);
+            // 停在联动写入的位置：这是联动产生的滚动，忽略
+            if (Math.abs(getScrollPosition(pane, axis) - expected) < ECHO_TOLERANCE) return;
+          }
+          syncFrom(paneIndex);
+        });
+      };
+
+      pane.addEventListener('scroll', handleScroll, { passive: true });
+      cleanups.push(() => {
+        pane.removeEventListener('scroll', handleScroll);
+        if (frameId !== null) cancelAnimationFrame(frameId);
+      });
+    });
+
+    return () => {
+      cleanups.forEach((cleanup) => cleanup());
+      expectedPositions.clear();
+    };
+  }, [enabled, panes, axis, syncFrom]);
+
+  return { registerSection, syncFrom };
+};
@@ -1,9 +1,60 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { debounce } from '../utils/debounce'; // 导入防抖函数
-import { UseScrollSyncProps, UseScrollSyncReturn, ScrollSyncOptions } from '../types'; // 导入类型定义
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { createScheduledFunction } from '../utils/scheduler'; // 导入更新调度函数
+import {
+  ScrollAxis,
+  resolveScrollRoot,
+  isReversedAxis,
+  getScrollRootRect,
+  getScrollRootSize,
+  getRectSpan,
+  isScrolledToEnd,
+  getElementScrollOffset,
+  getAlignedScrollPosition,
+  getScrollPosition,
+  scrollRootTo,
+} from '../utils/scrollRoot'; // 导入滚动根相关的工具函数
+import { HistoryWriteMode, readHashSectionId, writeHashSectionId } from '../utils/hash'; // 导入 URL hash 同步相关的工具函数
+import { ScrollCompletion, ScrollEndWatcher, watchScrollEnd } from '../utils/scrollEnd'; // 导入滚动结束检测
+import {
+  SectionIndex,
+  normalizeSections,
+  isSameSectionIndex,
+  getSectionPath,
+  isAncestorSection,
+} from '../utils/sectionTree'; // 导入多级区域相关的工具函数
+import { resolveActiveSectionStrategy, resolveActiveSectionScore } from '../utils/strategies'; // 导入激活区域策略
+import { computeScrollProgress, isSameScrollProgress } from '../utils/progress'; // 导入滚动进度计算
+import {
+  prefersReducedMotion,
+  getTabElementId,
+  getNextTabIndex,
+  composeEventHandlers,
+} from '../utils/a11y'; // 导入无障碍相关的工具函数
+import { waitForValue } from '../utils/virtualization'; // 导入虚拟列表集成相关的工具函数
+import { animateScroll, resolveScrollEasing } from '../utils/animation'; // 导入 JS 滚动动画
+import { RingBuffer, createRingBuffer } from '../utils/ringBuffer'; // 导入调试记录使用的环形缓冲区
+import { createDebugRecorder, createDebugApi } from '../utils/debugRecorder'; // 导入调试记录器
+import { createDwellTimeTracker } from '../utils/dwellTime'; // 导入区域停留时间统计
+import {
+  UseScrollSyncProps,
+  UseScrollSyncReturn,
+  ScrollSyncOptions,
+  SectionEntryData,
+  ScrollProgress,
+  ScrollProgressListener,
+  ScrollSyncUserProps,
+  ActiveSectionStrategyContext,
+  ScrollSyncDebugApi,
+  ScrollSyncDebugEvent,
+  ScrollSyncDebugSnapshot,
+  SectionChangeCause,
+  SectionsDefinition,
+} from '../types'; // 导入类型定义
 
 // 默认的防抖延迟时间（毫秒）
 const DEFAULT_DEBOUNCE_DELAY = 150;
+// 默认的激活标签更新调度方式
+const DEFAULT_UPDATE_MODE = 'debounce';
 // 默认的粘性因子，用于判断是否切换激活的标签，新标签的可见高度需要大于当前激活标签可见高度 * 粘性因子才切换
 const DEFAULT_STICKINESS_FACTOR = 1.05; // 从 1.2 修改为 1.05
 // IntersectionObserver 的默认阈值，表示目标元素与根元素交叉区域的比例
@@ -12,23 +63,71 @@ const DEFAULT_OBSERVER_THRESHOLD = [0.1, 0.25, 0.5, 0.75, 1.0];
 const DEFAULT_ACTIVE_ZONE_HEIGHT = 200;
 // 默认的滚动行为，'smooth' 表示平滑滚动
 const DEFAULT_SCROLL_BEHAVIOR = 'smooth';
+// 默认的滚动轴，'y' 表示纵向滚动
+const DEFAULT_AXIS: ScrollAxis = 'y';
+// 启用 hash 同步时，滚动导致激活标签变化时默认替换当前历史记录
+const DEFAULT_SCROLL_HISTORY_MODE: HistoryWriteMode = 'replace';
+// 启用 hash 同步时，点击标签时默认新增历史记录，以便浏览器前进/后退在区域之间切换
+const DEFAULT_CLICK_HISTORY_MODE: HistoryWriteMode = 'push';
+// 点击父区域时默认滚动到父区域自身
+const DEFAULT_PARENT_CLICK_TARGET = 'self';
+// 默认的激活区域策略
+const DEFAULT_STRATEGY = 'max-ratio';
+// 等待未渲染区域挂载的默认超时时间（毫秒）
+const DEFAULT_SECTION_MOUNT_TIMEOUT = 1000;
+// JS 滚动动画的默认时长（毫秒）
+const DEFAULT_SCROLL_ANIMATION_DURATION = 400;
+// JS 滚动动画的默认缓动函数
+const DEFAULT_SCROLL_ANIMATION_EASING = 'ease-in-out-cubic';
+// 调试记录环形缓冲区的默认容量
+const DEFAULT_DEBUG_TRACE_SIZE = 100;
+// 未传入 sections 时使用的空区域定义（保持引用稳定）
+const EMPTY_SECTIONS: SectionsDefinition = {};
+// 初始的滚动进度
+const INITIAL_PROGRESS: ScrollProgress = { sections: {}, overall: 0 };
+
+/**
+ * 根据滚动轴和方向构建 IntersectionObserver 的 rootMargin。
+ * @param axis - 滚动轴。
+ * @param reversed - 是否为 RTL 下的 x 轴（激活线从右边缘开始计算）。
+ * @param startOffset - 起始边向内收缩的距离，即激活线偏移量。
+ * @param endOffset - 末端边向内收缩的距离。
+ * @returns 格式为 "top right bottom left" 的 rootMargin 字符串。
+ */
+const buildRootMargin = (
+  axis: ScrollAxis,
+  reversed: boolean,
+  startOffset: number,
+  endOffset: number
+): string => {
+  if (axis === 'y') {
+    return `-${startOffset}px 0px -${endOffset}px 0px`;
+  }
+  return reversed
+    ? `0px -${startOffset}px 0px -${endOffset}px`
+    : `0px -${endOffset}px 0px -${startOffset}px`;
+};
 
 /**
  * useScrollSync Hook 用于同步滚动容器中内容区域与导航标签的状态。
- * @param scrollContainerRef - 对滚动容器元素的引用。
+ * @param scrollContainerRef - （可选）对滚动容器元素的引用；未提供时以视口为观察根并滚动 window。
  * @param navTabsRef - （可选）对导航标签容器元素的引用，用于计算偏移量。
- * @param sections - 一个对象，键是标签ID，值是对相应内容区域元素的引用。
+ * @param sections - （可选）一个对象，键是标签ID，值是对相应内容区域元素的引用；也可以是嵌套的区域定义。只通过 registerSection 注册区域时可以省略。
  * @param initialActiveTab - （可选）初始激活的标签ID。
  * @param onActiveTabChange - （可选）当激活的标签发生变化时的回调函数。
+ * @param onSectionEnter - （可选）当区域进入激活路径时的回调函数。
+ * @param onSectionLeave - （可选）当区域离开激活路径时的回调函数。
  * @param userOptions - （可选）用户自定义的配置选项。
- * @returns 返回一个对象，包含当前激活的标签 (activeTab) 和处理标签点击的函数 (handleTabClick)。
+ * @returns 返回一个对象，包含当前激活的标签 (activeTab)、激活路径 (activePath)、处理标签点击的函数 (handleTabClick)、滚动进度 (progress)、订阅滚动进度的函数 (subscribeProgress)、注册区域的函数 (registerSection)、无障碍的 prop getter (getNavProps、getTabProps、getSectionProps)、获取停留时间的函数 (getDwellTimes)，以及调试接口 (debug)。
  */
 export const useScrollSync = ({
   scrollContainerRef, // 滚动容器的引用
   navTabsRef, // 导航栏的引用
-  sections, // 内容区域元素的引用集合
+  sections: sectionsDefinition = EMPTY_SECTIONS, // 内容区域的定义（扁平映射或嵌套树）
   initialActiveTab, // 初始激活的标签ID
   onActiveTabChange, // 激活标签变化时的回调
+  onSectionEnter, // 区域进入激活路径时的回调
+  onSectionLeave, // 区域离开激活路径时的回调
   options: userOptions, // 用户自定义选项，重命名以避免与解构的 options 冲突
 }: UseScrollSyncProps): UseScrollSyncReturn => {
   // 显式声明 userOptions 类型并为 options 对象本身提供默认值
@@ -37,118 +136,555 @@ export const useScrollSync = ({
   // 从类型化的 options 中解构配置项，并提供默认值
   const {
     debounceDelay = DEFAULT_DEBOUNCE_DELAY, // 防抖延迟时间
+    updateMode = DEFAULT_UPDATE_MODE, // 激活标签的更新调度方式
     stickinessFactor = DEFAULT_STICKINESS_FACTOR, // 粘性因子
     observerThreshold = DEFAULT_OBSERVER_THRESHOLD, // IntersectionObserver 阈值
     activeLineOffset, // 激活线的偏移量，如果提供，则优先于 navTabsRef 计算的高度
     activeZoneHeight = DEFAULT_ACTIVE_ZONE_HEIGHT, // 激活区域高度
     defaultScrollBehavior = DEFAULT_SCROLL_BEHAVIOR, // 默认滚动行为
+    axis = DEFAULT_AXIS, // 滚动轴
+    hashSync = false, // URL hash 同步配置
+    parentClickTarget = DEFAULT_PARENT_CLICK_TARGET, // 点击父区域时的滚动目标
+    strategy = DEFAULT_STRATEGY, // 激活区域策略
+    trackProgress = false, // 是否将滚动进度作为 React 状态返回
+    respectReducedMotion = true, // 是否遵循系统的“减少动态效果”设置
+    ensureSectionRendered, // 请求渲染尚未渲染的区域（如虚拟列表）
+    estimateSectionOffset, // 估算尚未渲染的区域的偏移量
+    sectionMountTimeout = DEFAULT_SECTION_MOUNT_TIMEOUT, // 等待区域挂载的超时时间
+    scrollAnimation, // JS 滚动动画配置
+    onScrollStart, // 编程式滚动开始时的回调
+    onScrollComplete, // 编程式滚动结束时的回调
+    debug = false, // 调试配置
   } = options;
 
-  // useCallback 用于获取初始激活的标签ID，依赖于 initialActiveTab 和 sections
-  const getInitialActiveTab = useCallback(() => {
-    if (initialActiveTab) return initialActiveTab; // 如果提供了 initialActiveTab，则使用它
-    const sectionKeys = Object.keys(sections); // 获取所有内容区域的键
-    return sectionKeys.length > 0 ? sectionKeys[0] : ''; // 返回第一个区域的键或空字符串
-  }, [initialActiveTab, sections]);
+  // 调试仅在非生产环境下生效
+  // 使用内联的 process.env.NODE_ENV 判断，生产构建中打包工具会将其替换为常量 false，调试相关的代码随之被移除
+  const debugEnabled = process.env.NODE_ENV !== 'production' && Boolean(debug);
+  const debugTraceSize = (typeof debug === 'object' ? debug.traceSize : undefined) ?? DEFAULT_DEBUG_TRACE_SIZE;
+
+  // 将区域定义规范化为扁平的 ref 映射和父子关系
+  // 调用方常以内联对象传入 sections，因此按区域ID、层级和 ref 而不是对象引用判断是否变化，
+  // 内容相同时沿用上一次的结果，避免每次渲染都重置激活的标签并重建 IntersectionObserver
+  const sectionIndexRef = useRef<SectionIndex | null>(null);
+  const nextSectionIndex = normalizeSections(sectionsDefinition);
+  if (!sectionIndexRef.current || !isSameSectionIndex(sectionIndexRef.current, nextSectionIndex)) {
+    sectionIndexRef.current = nextSectionIndex;
+  }
+  const sectionIndex = sectionIndexRef.current;
+  const { refs: sections, parents: sectionParents, children: sectionChildren } = sectionIndex;
+
+  // 解析 hash 同步配置：传入 true 时使用默认的历史记录写入方式
+  const hashSyncEnabled = hashSync !== false;
+  const {
+    scrollHistoryMode = DEFAULT_SCROLL_HISTORY_MODE, // 滚动导致变化时的历史记录写入方式
+    clickHistoryMode = DEFAULT_CLICK_HISTORY_MODE, // 点击标签时的历史记录写入方式
+  } = typeof hashSync === 'object' ? hashSync : {};
+
+  // useRef 用于存储通过 registerSection 注册的区域元素
+  const registeredSectionsRef = useRef(new Map<string, HTMLElement>());
+  // useRef 用于缓存每个区域ID对应的 ref 回调，保证其引用稳定，避免每次渲染都触发注销和重新注册
+  const sectionRefCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  // useRef 用于存储由 IntersectionObserver effect 提供的观察/取消观察函数，以便在区域挂载或卸载时同步观察状态
+  const sectionObserverBindingRef = useRef<{
+    observe: (id: string, element: HTMLElement) => void;
+    unobserve: (id: string, element: HTMLElement) => void;
+  } | null>(null);
+
+  // useCallback 用于获取区域元素：优先使用 sections 中的 ref，其次使用通过 registerSection 注册的元素
+  const getSectionElement = useCallback(
+    (id: string): HTMLElement | null => sections[id]?.current ?? registeredSectionsRef.current.get(id) ?? null,
+    [sections]
+  );
+
+  // useCallback 用于获取所有区域ID：sections 中的区域在前，其后是通过 registerSection 注册的区域
+  const getSectionIds = useCallback((): string[] => {
+    const sectionKeys = Object.keys(sections);
+    const registeredKeys = Array.from(registeredSectionsRef.current.keys()).filter((id) => !(id in sections));
+    return [...sectionKeys, ...registeredKeys];
+  }, [sections]);
 
-  // useState 用于管理当前激活的标签ID
-  const [activeTab, setActiveTab] = useState<string>(getInitialActiveTab());
+  // useCallback 用于获取初始激活的标签ID及其来源，依赖于 initialActiveTab 和 sections
+  // 来自 URL hash（深链接）时原因为 'hash'，否则为 'initial'
+  const getInitialActiveTab = useCallback((): { id: string; cause: SectionChangeCause } => {
+    const sectionKeys = getSectionIds(); // 获取所有内容区域的键
+    // 启用 hash 同步时，URL 中的 hash（深链接）优先于 initialActiveTab
+    const hashSectionId = hashSyncEnabled ? readHashSectionId(sectionKeys) : null;
+    if (hashSectionId) return { id: hashSectionId, cause: 'hash' };
+    if (initialActiveTab) return { id: initialActiveTab, cause: 'initial' }; // 如果提供了 initialActiveTab，则使用它
+    return { id: sectionKeys.length > 0 ? sectionKeys[0] : '', cause: 'initial' }; // 返回第一个区域的键或空字符串
+  }, [initialActiveTab, getSectionIds, hashSyncEnabled]);
+
+  // useRef 用于记录下一次激活区域变化的原因，在调用 setActiveTab 之前设置
+  const activeChangeCauseRef = useRef<SectionChangeCause>('initial');
+  // useState 用于管理当前激活的标签ID，同时记录初始值的来源
+  const [activeTab, setActiveTab] = useState<string>(() => {
+    const { id, cause } = getInitialActiveTab();
+    activeChangeCauseRef.current = cause;
+    return id;
+  });
   // useRef 用于存储当前激活标签的引用，以便在回调中访问最新值而无需将其作为依赖项
   const activeTabRef = useRef(activeTab);
+  // useMemo 用于计算从顶层区域到当前激活区域的路径
+  const activePath = useMemo(() => getSectionPath(activeTab, sectionParents), [activeTab, sectionParents]);
 
   // useRef 用于标记当前滚动是否由程序触发（例如，点击标签）
   const isProgrammaticScrollRef = useRef(false);
-  // useRef 用于存储编程式滚动后的超时计时器ID
-  const programmaticScrollTimeoutRef = useRef<number | null>(null); // 将 NodeJS.Timeout 改为 number
+  // useRef 用于记录上一次通知过的激活路径，以便计算进入和离开的区域
+  const enteredPathRef = useRef<string[]>([]);
+  // useRef 用于存储最新的区域进入/离开回调，避免内联函数导致 effect 重新运行
+  const onSectionEnterRef = useRef(onSectionEnter);
+  const onSectionLeaveRef = useRef(onSectionLeave);
+  // useRef 用于统计每个区域在滚动根中可见的累计时间
+  const dwellTrackerRef = useRef(createDwellTimeTracker());
+  // useRef 用于存储进行中的编程式滚动的结束监听器
+  const scrollEndWatcherRef = useRef<ScrollEndWatcher | null>(null);
+  // useRef 用于存储最近一次与 URL hash 同步的区域ID，以便忽略由自身写入或已处理过的 hash 导航
+  const lastSyncedHashRef = useRef<string | null>(null);
+  // useRef 用于存储滚动导致变化时的历史记录写入方式，供防抖回调读取最新值
+  const scrollHistoryModeRef = useRef<HistoryWriteMode>('none');
+  // useRef 用于存储当前的激活区域策略，自定义策略函数可能在每次渲染时重新创建，不应导致 IntersectionObserver 重建
+  const strategyRef = useRef(resolveActiveSectionStrategy(strategy));
+  // useRef 用于存储当前策略的得分函数（调试用），自定义策略为 null
+  const strategyScoreRef = useRef(resolveActiveSectionScore(strategy));
+  // useRef 用于存储调试记录的环形缓冲区、最新的调试快照及其订阅者（仅在开启调试时使用）
+  const debugTraceRef = useRef<RingBuffer<ScrollSyncDebugEvent> | null>(null);
+  const debugSnapshotRef = useRef<ScrollSyncDebugSnapshot | null>(null);
+  const debugListenersRef = useRef(new Set<(snapshot: ScrollSyncDebugSnapshot) => void>());
+  // useState 用于管理作为 React 状态返回的滚动进度（仅在 trackProgress 为 true 时更新）
+  const [progress, setProgress] = useState<ScrollProgress>(INITIAL_PROGRESS);
+  // useRef 用于存储最近一次计算的滚动进度，供新的订阅者立即获取
+  const latestProgressRef = useRef<ScrollProgress>(INITIAL_PROGRESS);
+  // useRef 用于存储滚动进度的订阅者
+  const progressListenersRef = useRef(new Set<ScrollProgressListener>());
+  // useRef 用于存储由 IntersectionObserver effect 提供的进度计算函数，供订阅时刷新最新进度
+  const emitProgressRef = useRef<((force?: boolean) => void) | null>(null);
+  // useRef 用于存储虚拟列表集成的回调，内联函数在每次渲染时重新创建，不应导致 scrollToSection 重建
+  const ensureSectionRenderedRef = useRef(ensureSectionRendered);
+  const estimateSectionOffsetRef = useRef(estimateSectionOffset);
+  // useRef 用于存储 JS 滚动动画配置和滚动生命周期回调，同样避免内联对象或函数导致 scrollToSection 重建
+  const scrollAnimationRef = useRef(scrollAnimation);
+  const onScrollStartRef = useRef(onScrollStart);
+  const onScrollCompleteRef = useRef(onScrollComplete);
+  // useRef 用于为每次滚动请求编号，以便在异步等待后识别已被新请求取代的旧请求
+  const scrollRequestIdRef = useRef(0);
+  // useRef 用于标记挂载时的深链接是否已处理
+  const initialHashHandledRef = useRef(false);
+  // useState 用于在滚动容器或导航栏尺寸变化时触发 IntersectionObserver 重建，以重新计算 rootMargin
+  const [layoutVersion, setLayoutVersion] = useState(0);
+
+  // useEffect 用于同步最新的激活区域策略
+  useEffect(() => {
+    strategyRef.current = resolveActiveSectionStrategy(strategy);
+    strategyScoreRef.current = resolveActiveSectionScore(strategy);
+  }, [strategy]);
+
+  // useEffect 用于在开启调试或调整容量时创建调试记录的环形缓冲区
+  useEffect(() => {
+    debugTraceRef.current =
+      process.env.NODE_ENV !== 'production' && debugEnabled
+        ? createRingBuffer<ScrollSyncDebugEvent>(debugTraceSize)
+        : null;
+  }, [debugEnabled, debugTraceSize]);
+
+  // useEffect 用于同步最新的虚拟列表集成回调
+  useEffect(() => {
+    ensureSectionRenderedRef.current = ensureSectionRendered;
+    estimateSectionOffsetRef.current = estimateSectionOffset;
+  }, [ensureSectionRendered, estimateSectionOffset]);
+
+  // useEffect 用于同步最新的 JS 滚动动画配置和滚动生命周期回调
+  useEffect(() => {
+    scrollAnimationRef.current = scrollAnimation;
+    onScrollStartRef.current = onScrollStart;
+    onScrollCompleteRef.current = onScrollComplete;
+  }, [scrollAnimation, onScrollStart, onScrollComplete]);
+
+  // useEffect 用于同步滚动导致变化时的历史记录写入方式（未启用 hash 同步时不写入）
+  useEffect(() => {
+    scrollHistoryModeRef.current = hashSyncEnabled ? scrollHistoryMode : 'none';
+  }, [hashSyncEnabled, scrollHistoryMode]);
 
   // useEffect 用于在 activeTab 变化时更新 activeTabRef 并调用 onActiveTabChange 回调
   useEffect(() => {
     activeTabRef.current = activeTab; // 更新 ref 中的当前激活标签
     if (onActiveTabChange) {
-      onActiveTabChange(activeTab); // 调用外部回调
+      onActiveTabChange(activeTab, activePath); // 调用外部回调，并传入完整的激活路径
     }
-  }, [activeTab, onActiveTabChange]);
+  }, [activeTab, activePath, onActiveTabChange]);
+
+  // useEffect 用于同步最新的区域进入/离开回调
+  useEffect(() => {
+    onSectionEnterRef.current = onSectionEnter;
+    onSectionLeaveRef.current = onSectionLeave;
+  }, [onSectionEnter, onSectionLeave]);
+
+  // useEffect 用于在激活路径变化时通知离开和进入的区域
+  useEffect(() => {
+    const previousPath = enteredPathRef.current;
+    const nextPath = activePath.filter(Boolean); // 没有区域时 activeTab 为空字符串
+    const cause = activeChangeCauseRef.current;
+    enteredPathRef.current = nextPath;
+    // 先由深到浅通知离开的区域，再由浅到深通知进入的区域
+    [...previousPath].reverse().forEach((id) => {
+      if (!nextPath.includes(id)) onSectionLeaveRef.current?.(id, cause);
+    });
+    nextPath.forEach((id) => {
+      if (!previousPath.includes(id)) onSectionEnterRef.current?.(id, cause);
+    });
+  }, [activePath]);
+
+  // useEffect 用于在页面不可见时暂停停留时间的累计
+  useEffect(() => {
+    if (typeof document === 'undefined') return;
+    const dwellTracker = dwellTrackerRef.current;
+    const handleVisibilityChange = () => dwellTracker.setPaused('hidden', document.visibilityState === 'hidden');
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // useCallback 用于设置编程式滚动标记，编程式滚动期间同时暂停停留时间的累计，避免统计途经的区域
+  const setProgrammaticScroll = useCallback((isProgrammatic: boolean) => {
+    isProgrammaticScrollRef.current = isProgrammatic;
+    dwellTrackerRef.current.setPaused('programmatic-scroll', isProgrammatic);
+  }, []);
+
+  // useCallback 用于获取每个区域累计的停留时间
+  const getDwellTimes = useCallback(() => dwellTrackerRef.current.getDwellTimes(), []);
 
   // useEffect 用于在 initialActiveTab 或 sections 变化时重置激活的标签
   useEffect(() => {
-    setActiveTab(getInitialActiveTab());
+    const { id, cause } = getInitialActiveTab();
+    activeChangeCauseRef.current = cause;
+    setActiveTab(id);
   }, [getInitialActiveTab]);
 
-  // useCallback 用于处理导航标签的点击事件
-  const handleTabClick = useCallback((tabId: string, behavior?: ScrollBehavior) => {
-    const sectionRef = sections[tabId]; // 获取对应内容区域的引用
-    const element = sectionRef?.current; // 获取内容区域的 DOM 元素
-    const scrollContainer = scrollContainerRef.current; // 获取滚动容器的 DOM 元素
-
-    if (element && scrollContainer) {
-      // 获取导航栏的高度，如果 navTabsRef 未提供或高度为0，并且没有设置 activeLineOffset，则使用默认值
-      let navTabsHeight = navTabsRef?.current?.offsetHeight ?? 0;
-      if (navTabsHeight === 0 && activeLineOffset === undefined) {
-        console.warn(
-          '[useScrollSync] navTabsHeight is 0 or navTabsRef not provided, and no activeLineOffset set. Defaulting to 60px for scroll calculation. This might lead to inaccurate scrolling.'
-        );
-        navTabsHeight = 60; // 默认导航栏高度
-      }
+  // useCallback 用于滚动到指定区域，并按 historyMode 将区域ID写入 URL hash
+  // 返回的 Promise 在滚动结束时以 'completed' resolve，被用户输入或新的滚动打断时以 'interrupted' resolve
+  const scrollToSection = useCallback(async (
+    tabId: string,
+    behavior: ScrollBehavior | undefined,
+    historyMode: HistoryWriteMode,
+    cause: SectionChangeCause
+  ): Promise<ScrollCompletion> => {
+    const scrollContainer = scrollContainerRef?.current; // 获取滚动容器的 DOM 元素
+    // 提供了 scrollContainerRef 但元素尚未挂载时不执行滚动，避免误滚动 window
+    if (scrollContainerRef && !scrollContainer) {
+      return 'interrupted';
+    }
+    const scrollRoot = resolveScrollRoot(scrollContainer); // 滚动根：容器元素或 window
+    const reversed = isReversedAxis(scrollRoot, axis); // RTL 下的 x 轴
+    const requestId = ++scrollRequestIdRef.current; // 本次滚动请求的编号，用于识别被新请求取代的旧请求
 
-      // 计算有效的导航栏高度/激活线偏移量
-      const effectiveNavHeight = activeLineOffset !== undefined ? activeLineOffset : navTabsHeight;
-      // 计算目标元素相对于滚动容器顶部的偏移量
-      const elementTopInScrollContainer = element.offsetTop;
-      // 计算最终的滚动位置，使其位于导航栏下方(保证导航栏始终显示)
-      const scrollToPosition = elementTopInScrollContainer - effectiveNavHeight;
+    // 获取导航栏的高度，如果 navTabsRef 未提供或高度为0，并且没有设置 activeLineOffset，则使用默认值
+    // x 轴上导航栏通常位于内容上方而不会在横向上遮挡内容，因此不使用导航栏高度
+    let navTabsHeight = axis === 'y' ? navTabsRef?.current?.offsetHeight ?? 0 : 0;
+    if (axis === 'y' && navTabsHeight === 0 && activeLineOffset === undefined) {
+      console.warn(
+        '[useScrollSync] navTabsHeight is 0 or navTabsRef not provided, and no activeLineOffset set. Defaulting to 60px for scroll calculation. This might lead to inaccurate scrolling.'
+      );
+      navTabsHeight = 60; // 默认导航栏高度
+    }
+    // 计算有效的导航栏高度/激活线偏移量
+    const effectiveNavHeight = activeLineOffset !== undefined ? activeLineOffset : navTabsHeight;
+    // 用户开启“减少动态效果”时强制瞬间滚动，否则使用传入的 behavior 或默认滚动行为
+    let resolvedBehavior: ScrollBehavior =
+      respectReducedMotion && prefersReducedMotion() ? 'auto' : behavior || defaultScrollBehavior;
 
-      // 如果存在进行中的编程式滚动超时，则清除它
-      if (programmaticScrollTimeoutRef.current) {
-        clearTimeout(programmaticScrollTimeoutRef.current);
+    let element = getSectionElement(tabId); // 获取内容区域的 DOM 元素
+    if (!element) {
+      // 区域尚未渲染（如虚拟列表中的区域）且未提供集成方式时无法滚动
+      const ensureSectionRendered = ensureSectionRenderedRef.current;
+      const estimateSectionOffset = estimateSectionOffsetRef.current;
+      if (!ensureSectionRendered && !estimateSectionOffset) {
+        return 'interrupted';
       }
 
-      isProgrammaticScrollRef.current = true; // 标记为编程式滚动
+      // 如果存在进行中的编程式滚动，则将其视为被打断
+      scrollEndWatcherRef.current?.cancel();
+      scrollEndWatcherRef.current = null;
+      setProgrammaticScroll(true); // 等待区域渲染期间同样屏蔽激活区域的更新
+      activeChangeCauseRef.current = cause;
       setActiveTab(tabId); // 立即更新激活的标签
 
-      // 执行滚动操作
-      scrollContainer.scrollTo({
-        top: scrollToPosition,
-        behavior: behavior || defaultScrollBehavior, // 使用传入的 behavior 或默认滚动行为
+      // 粗略跳转：根据估算的偏移量瞬间滚动到区域附近，促使虚拟列表渲染该区域
+      const estimatedOffset = estimateSectionOffset?.(tabId);
+      if (typeof estimatedOffset === 'number') {
+        scrollRootTo(scrollRoot, getAlignedScrollPosition(estimatedOffset, effectiveNavHeight, reversed), 'auto', axis);
+        resolvedBehavior = 'auto'; // 已经跳转到区域附近，后续的精确校正无需动画
+      }
+
+      // 请求渲染该区域，并等待其元素挂载
+      try {
+        await ensureSectionRendered?.(tabId);
+        element = await waitForValue(() => getSectionElement(tabId), sectionMountTimeout);
+      } catch (error) {
+        console.error(`[useScrollSync] ensureSectionRendered failed for key ${tabId}:`, error);
+        // 仍是最新的请求时才恢复状态，避免覆盖新请求设置的编程式滚动标记
+        if (requestId === scrollRequestIdRef.current) {
+          setProgrammaticScroll(false);
+        }
+        return 'interrupted';
+      }
+
+      // 等待期间有新的滚动请求时，放弃本次请求
+      if (requestId !== scrollRequestIdRef.current) {
+        return 'interrupted';
+      }
+      if (!element) {
+        console.warn(`[useScrollSync] Section element for key ${tabId} did not mount within ${sectionMountTimeout}ms.`);
+        setProgrammaticScroll(false);
+        return 'interrupted';
+      }
+    }
+
+    // 精确滚动：计算目标元素起始边在滚动根内容坐标系中的偏移量（不依赖 offsetParent）
+    const elementStartInScrollContainer = getElementScrollOffset(element, scrollRoot, axis, reversed);
+    // 计算最终的滚动位置，使其位于导航栏下方(保证导航栏始终显示)
+    const scrollToPosition = getAlignedScrollPosition(elementStartInScrollContainer, effectiveNavHeight, reversed);
+
+    // 如果存在进行中的编程式滚动，则将其视为被打断
+    scrollEndWatcherRef.current?.cancel();
+
+    setProgrammaticScroll(true); // 标记为编程式滚动
+    activeChangeCauseRef.current = cause;
+    setActiveTab(tabId); // 立即更新激活的标签
+
+    onScrollStartRef.current?.(tabId);
+
+    // 执行滚动操作，并监听滚动结束或被用户打断，之后将 isProgrammaticScrollRef 设置回 false
+    let watcher: ScrollEndWatcher;
+    const animation = scrollAnimationRef.current;
+    if (animation && resolvedBehavior === 'smooth') {
+      // JS 动画：按配置的时长和缓动函数逐帧滚动，动画结束即滚动结束
+      const { duration = DEFAULT_SCROLL_ANIMATION_DURATION, easing = DEFAULT_SCROLL_ANIMATION_EASING } = animation;
+      const distance = Math.abs(scrollToPosition - getScrollPosition(scrollRoot, axis));
+      watcher = animateScroll(scrollRoot, scrollToPosition, {
+        axis,
+        reversed,
+        duration: typeof duration === 'function' ? duration(distance) : duration,
+        easing: resolveScrollEasing(easing),
       });
+    } else {
+      // 原生滚动：通过 scrollend 事件或滚动位置稳定判断滚动结束
+      scrollRootTo(scrollRoot, scrollToPosition, resolvedBehavior, axis);
+      watcher = watchScrollEnd(scrollRoot);
+    }
+    scrollEndWatcherRef.current = watcher;
+
+    // 启用 hash 同步时记录并写入 URL hash
+    if (hashSyncEnabled) {
+      lastSyncedHashRef.current = tabId;
+      writeHashSectionId(tabId, historyMode);
+    }
 
-      // 设置一个超时，在滚动动画结束后将 isProgrammaticScrollRef 设置回 false
-      // 800ms 是一个估计的平滑滚动持续时间
-      programmaticScrollTimeoutRef.current = window.setTimeout(() => { // 使用 window.setTimeout
-        isProgrammaticScrollRef.current = false;
-      }, 800);
+    const result = await watcher.promise;
+    // 只有最近一次滚动的监听器才能重置标记，避免被新的滚动打断的旧监听器提前解除屏蔽
+    if (scrollEndWatcherRef.current === watcher) {
+      scrollEndWatcherRef.current = null;
+      setProgrammaticScroll(false);
     }
+    onScrollCompleteRef.current?.(tabId, result);
+    return result;
   }, [
-    sections,
+    getSectionElement,
     scrollContainerRef,
     navTabsRef,
     activeLineOffset,
     defaultScrollBehavior,
+    respectReducedMotion,
+    axis,
+    hashSyncEnabled,
+    sectionMountTimeout,
+    setProgrammaticScroll,
     setActiveTab // 将 setActiveTab 添加为 useCallback 的依赖项，因为它在内部被使用
   ]);
 
-  // useRef 和 debounce 用于创建一个防抖函数，以避免在滚动过程中频繁更新激活的标签
-  const debouncedUpdateActiveTab = useRef(
-    debounce((tabId: string) => {
-      // 只有当新的 tabId 有效且与当前激活的标签不同时才更新
-      if (tabId && tabId !== activeTabRef.current) {
-        setActiveTab(tabId);
+  // useCallback 用于处理导航标签的点击事件
+  const handleTabClick = useCallback((tabId: string, behavior?: ScrollBehavior): Promise<ScrollCompletion> => {
+    let targetId = tabId;
+    // 点击父区域且配置为滚动到子区域时，查找第一个已渲染且可见的子区域
+    if (parentClickTarget === 'first-visible-child') {
+      const firstVisibleChildId = (sectionChildren[tabId] ?? []).find((childId) => {
+        const childElement = getSectionElement(childId);
+        return !!childElement && childElement.getClientRects().length > 0; // 未挂载或 display: none 的子区域视为不可见
+      });
+      if (firstVisibleChildId) targetId = firstVisibleChildId;
+    }
+    return scrollToSection(targetId, behavior, clickHistoryMode, 'click');
+  }, [scrollToSection, clickHistoryMode, parentClickTarget, getSectionElement, sectionChildren]);
+
+  // useEffect 用于在挂载时处理深链接：如果 URL hash 指向某个区域，则立即滚动到该区域
+  useEffect(() => {
+    if (!hashSyncEnabled || initialHashHandledRef.current) return;
+    // 提供了 scrollContainerRef 但容器尚未挂载时暂不处理，等容器挂载后再滚动，避免误滚动 window
+    if (scrollContainerRef && !scrollContainerRef.current) return;
+    const hashSectionId = readHashSectionId(getSectionIds());
+    if (!hashSectionId) return;
+    initialHashHandledRef.current = true;
+    // URL 已经包含该 hash，无需再写入历史记录
+    void scrollToSection(hashSectionId, 'auto', 'none', 'hash');
+  }, [hashSyncEnabled, scrollContainerRef, getSectionIds, scrollToSection]);
+
+  // useEffect 用于监听浏览器前进/后退以及手动修改 hash，滚动到对应的区域
+  useEffect(() => {
+    if (!hashSyncEnabled) return;
+
+    const handleHashNavigation = () => {
+      const hashSectionId = readHashSectionId(getSectionIds());
+      // 忽略无效的 hash，以及与最近一次同步相同的 hash（popstate 与 hashchange 可能先后触发）
+      if (!hashSectionId || hashSectionId === lastSyncedHashRef.current) return;
+      // 通过 scrollToSection 滚动，使 isProgrammaticScrollRef 在滚动期间屏蔽 IntersectionObserver 的更新
+      // URL 已由浏览器更新，因此不再写入历史记录
+      void scrollToSection(hashSectionId, undefined, 'none', 'hash');
+    };
+
+    window.addEventListener('popstate', handleHashNavigation);
+    window.addEventListener('hashchange', handleHashNavigation);
+    return () => {
+      window.removeEventListener('popstate', handleHashNavigation);
+      window.removeEventListener('hashchange', handleHashNavigation);
+    };
+  }, [hashSyncEnabled, getSectionIds, scrollToSection]);
+
+  // useCallback 用于返回区域的 ref 回调：元素挂载时注册并开始观察，卸载时注销并停止观察
+  // 适用于懒加载、条件渲染或依赖异步数据的区域，无需预先构建 sections 映射
+  const registerSection = useCallback((id: string) => {
+    const refCallbacks = sectionRefCallbacksRef.current;
+    let refCallback = refCallbacks.get(id);
+    if (!refCallback) {
+      let currentElement: HTMLElement | null = null; // 当前注册的元素
+      refCallback = (element: HTMLElement | null) => {
+        if (element === currentElement) return;
+        const registry = registeredSectionsRef.current;
+        if (currentElement) {
+          registry.delete(id);
+          sectionObserverBindingRef.current?.unobserve(id, currentElement);
+        }
+        currentElement = element;
+        if (element) {
+          registry.set(id, element);
+          sectionObserverBindingRef.current?.observe(id, element);
+        }
+      };
+      refCallbacks.set(id, refCallback);
+    }
+    return refCallback;
+  }, []);
+
+  // useEffect 用于在滚动容器或导航栏尺寸变化时重新计算 rootMargin
+  // clientHeight 和 navTabsRef.offsetHeight 只在 IntersectionObserver effect 运行时读取，因此需要在尺寸变化时触发其重建
+  useEffect(() => {
+    const scrollContainer = scrollContainerRef?.current;
+    const navTabs = navTabsRef?.current;
+    // 提供了 scrollContainerRef 但容器尚未挂载时不监听，避免把 window 误当作滚动根
+    if (scrollContainerRef && !scrollContainer) return;
+    // 尺寸变化按动画帧合并，每帧最多重建一次观察器（resize 事件在拖动窗口时会连续触发）
+    let layoutFrameId: number | null = null;
+    const bumpLayoutVersion = () => {
+      if (layoutFrameId !== null) return;
+      layoutFrameId = requestAnimationFrame(() => {
+        layoutFrameId = null;
+        setLayoutVersion((version) => version + 1);
+      });
+    };
+
+    // window 模式下 rootMargin 依赖视口尺寸，监听 resize 事件
+    if (!scrollContainer) {
+      window.addEventListener('resize', bumpLayoutVersion);
+    }
+
+    let resizeObserver: ResizeObserver | null = null;
+    if (typeof ResizeObserver !== 'undefined') {
+      const lastSizes = new Map<Element, string>(); // 记录每个元素上一次的尺寸，忽略 observe 时的首次回调
+      resizeObserver = new ResizeObserver((entries) => {
+        let changed = false;
+        entries.forEach((entry) => {
+          const size = `${entry.contentRect.width}x${entry.contentRect.height}`;
+          if (lastSizes.has(entry.target) && lastSizes.get(entry.target) !== size) changed = true;
+          lastSizes.set(entry.target, size);
+        });
+        if (changed) bumpLayoutVersion();
+      });
+      if (scrollContainer) resizeObserver.observe(scrollContainer);
+      if (navTabs) resizeObserver.observe(navTabs);
+    }
+
+    return () => {
+      window.removeEventListener('resize', bumpLayoutVersion);
+      resizeObserver?.disconnect();
+      if (layoutFrameId !== null) cancelAnimationFrame(layoutFrameId);
+    };
+  }, [scrollContainerRef, navTabsRef]);
+
+  // useMemo 用于创建调试接口，未开启调试时为 null
+  const debugApi = useMemo<ScrollSyncDebugApi | null>(
+    () =>
+      process.env.NODE_ENV !== 'production' && debugEnabled
+        ? createDebugApi(() => debugSnapshotRef.current, debugListenersRef.current, () => debugTraceRef.current)
+        : null,
+    [debugEnabled]
+  );
+
+  // useCallback 用于订阅滚动进度，订阅时立即以最新的进度回调一次
+  const subscribeProgress = useCallback((listener: ScrollProgressListener) => {
+    const listeners = progressListenersRef.current;
+    emitProgressRef.current?.(true); // 之前没有订阅者时进度不会被计算，这里先刷新一次
+    listeners.add(listener);
+    listener(latestProgressRef.current);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  // useCallback 用于应用滚动导致的激活标签变化
+  const applyScrolledActiveTab = useCallback((tabId: string) => {
+    // 调度的更新可能在点击滚动开始后才执行，此时激活的标签已固定为点击的目标，忽略该更新
+    if (isProgrammaticScrollRef.current) return;
+    // 只有当新的 tabId 有效且与当前激活的标签不同时才更新
+    if (tabId && tabId !== activeTabRef.current) {
+      activeChangeCauseRef.current = 'scroll';
+      setActiveTab(tabId);
+      // 启用 hash 同步时，将滚动导致的变化写入 URL hash
+      if (scrollHistoryModeRef.current !== 'none') {
+        lastSyncedHashRef.current = tabId;
+        writeHashSectionId(tabId, scrollHistoryModeRef.current);
       }
-    }, debounceDelay)
-  ).current;
+    }
+  }, [setActiveTab]);
+
+  // useMemo 用于按 updateMode 创建调度函数，以避免在滚动过程中频繁更新激活的标签
+  // debounceDelay 或 updateMode 变化时重新创建，使新的配置生效
+  const scheduledUpdateActiveTab = useMemo(
+    () => createScheduledFunction(updateMode, applyScrolledActiveTab, debounceDelay),
+    [updateMode, applyScrolledActiveTab, debounceDelay]
+  );
+
+  // useEffect 用于在调度函数被替换或组件卸载时取消尚未执行的更新，避免在卸载后调用 setActiveTab
+  useEffect(() => {
+    return () => {
+      scheduledUpdateActiveTab.cancel();
+    };
+  }, [scheduledUpdateActiveTab]);
 
   // useEffect 用于设置和管理 IntersectionObserver，以在用户滚动时自动更新激活的标签
   useEffect(() => {
-    const scrollContainer = scrollContainerRef.current; // 获取滚动容器元素
+    const scrollContainer = scrollContainerRef?.current; // 获取滚动容器元素
     const currentNavTabsRef = navTabsRef?.current; // 获取导航栏元素
 
-    // 如果滚动容器不存在或没有内容区域，则不执行任何操作
-    if (!scrollContainer || Object.keys(sections).length === 0) {
+    // 如果提供了滚动容器的 ref 但元素不存在，则不执行任何操作
+    // 即使暂时没有内容区域也需要创建观察器，以便之后通过 registerSection 注册的区域能够被观察
+    if (scrollContainerRef && !scrollContainer) {
       return;
     }
+    const scrollRoot = resolveScrollRoot(scrollContainer); // 滚动根：容器元素或 window
+    const reversed = isReversedAxis(scrollRoot, axis); // RTL 下的 x 轴
 
-    // 计算导航栏高度，用于 IntersectionObserver 的 rootMargin
-    let calculatedNavTabsHeight = currentNavTabsRef?.offsetHeight ?? 0;
-    if (calculatedNavTabsHeight === 0 && activeLineOffset === undefined) {
+    // 计算导航栏高度，用于 IntersectionObserver 的 rootMargin（x 轴上不使用导航栏高度）
+    let calculatedNavTabsHeight = axis === 'y' ? currentNavTabsRef?.offsetHeight ?? 0 : 0;
+    if (axis === 'y' && calculatedNavTabsHeight === 0 && activeLineOffset === undefined) {
       // 如果导航栏高度为0或未提供，并且没有设置 activeLineOffset，则使用默认值并发出警告
       console.warn(
         '[useScrollSync Observer] navTabsHeight is 0 or navTabsRef not provided, and no activeLineOffset set. Defaulting to 60px for observer rootMargin. This might affect active section detection.'
@@ -156,159 +692,421 @@ export const useScrollSync = ({
       calculatedNavTabsHeight = 60; // 默认导航栏高度
     }
     
-    // 计算有效的激活线偏移量，优先使用 activeLineOffset，否则使用计算出的导航栏高度 + 5px 的额外间距
-    const effectiveActiveLineOffset = activeLineOffset !== undefined ? activeLineOffset : (calculatedNavTabsHeight + 5);
-    // 获取滚动容器的客户端高度
-    const scrollContainerClientHeight = scrollContainer.clientHeight;
+    // 计算有效的激活线偏移量，优先使用 activeLineOffset，否则使用计算出的导航栏高度 + 5px 的额外间距（x 轴默认为 0）
+    const effectiveActiveLineOffset =
+      activeLineOffset !== undefined ? activeLineOffset : axis === 'y' ? calculatedNavTabsHeight + 5 : 0;
+    // 获取滚动根可视区域的矩形（window 模式下即视口）
+    const initialScrollRootRect = getScrollRootRect(scrollRoot);
+    // 获取滚动根在滚动轴上的可视尺寸
+    const scrollContainerClientSize = getScrollRootSize(initialScrollRootRect, axis);
 
-    if (scrollContainerClientHeight === 0) {
-      // 如果滚动容器高度为0（可能在布局未稳定时发生），发出警告
+    if (scrollContainerClientSize === 0) {
+      // 如果滚动容器尺寸为0（可能在布局未稳定时发生），发出警告
       console.warn(
-        '[useScrollSync Observer] scrollContainer.clientHeight is 0. Observer might not function correctly until layout is stable.'
+        '[useScrollSync Observer] scroll root client size is 0. Observer might not function correctly until layout is stable.'
       );
     }
 
-    // 计算 IntersectionObserver rootMargin 的底部偏移量
-    // 确保底部偏移量不为负数
-    const bottomOffsetForRootMargin = Math.max(
+    // 计算 IntersectionObserver rootMargin 末端（纵向为底部）的偏移量
+    // 确保末端偏移量不为负数
+    const endOffsetForRootMargin = Math.max(
       0,
-      scrollContainerClientHeight - effectiveActiveLineOffset - activeZoneHeight // 滚动容器高度 - 顶部偏移 - 激活区域高度
+      scrollContainerClientSize - effectiveActiveLineOffset - activeZoneHeight // 滚动容器尺寸 - 起始偏移 - 激活区域尺寸
     );
 
     // IntersectionObserver 的配置选项
     const observerOptions: IntersectionObserverInit = {
-      root: scrollContainer, // 根元素，即滚动容器
+      root: scrollContainer ?? null, // 根元素，即滚动容器；window 模式下为 null，表示以视口为根
       // rootMargin 定义了根元素的边界框在计算交叉区域时的偏移量
       // 格式: "top right bottom left"
-      // 顶部偏移: -effectiveActiveLineOffset px (将观察区域的顶部向下移动，使得元素顶部接触到激活线时触发)
-      // 底部偏移: -bottomOffsetForRootMargin px (将观察区域的底部向上移动，使得元素在激活区域内时被视为可见)
-      rootMargin: `-${effectiveActiveLineOffset}px 0px -${bottomOffsetForRootMargin}px 0px`,
+      // 起始边偏移: -effectiveActiveLineOffset px (将观察区域的起始边向内移动，使得元素起始边接触到激活线时触发)
+      // 末端边偏移: -endOffsetForRootMargin px (将观察区域的末端边向内移动，使得元素在激活区域内时被视为可见)
+      rootMargin: buildRootMargin(axis, reversed, effectiveActiveLineOffset, endOffsetForRootMargin),
       threshold: observerThreshold, // 触发回调的交叉比例阈值
     };    
 
-    // IntersectionObserver 的回调函数，当观察的元素与根元素的交叉状态发生变化时调用
-    const observerCallback: IntersectionObserverCallback = (entries) => {
-      // 如果是编程式滚动(即用户点击导航栏标签触发的滚动)，则忽略 IntersectionObserver 的回调
+    // 元素到区域ID的映射，以及每个区域最近一次的交叉状态
+    // IntersectionObserver 每次只回调状态发生变化的条目，因此需要保存所有区域的最新状态供策略使用
+    const elementToSectionId = new Map<Element, string>();
+    const sectionElements = new Map<string, Element>(); // 区域ID到元素的映射，用于计算滚动进度
+    const intersectionStates = new Map<string, { isIntersecting: boolean; intersectionRatio: number }>();
+
+    // 根据所有区域的实时几何信息和交叉状态计算策略所需的区域数据（按文档顺序）
+    const collectSectionEntries = (): SectionEntryData[] => {
+      const scrollRootRect = getScrollRootRect(scrollRoot); // 容器可能随页面滚动而移动，因此每次重新读取
+      const activeZoneEnd = effectiveActiveLineOffset + activeZoneHeight;
+      const viewportSize = getScrollRootSize(scrollRootRect, axis);
+      const collected: SectionEntryData[] = [];
+      // 按元素在文档中的顺序排列，策略（如 'first-below-line'）和“最后一个区域”的判断依赖该顺序
+      const orderedElements = Array.from(elementToSectionId.keys()).sort((a, b) =>
+        a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+      );
+      orderedElements.forEach((element) => {
+        const id = elementToSectionId.get(element)!;
+        const { start, end } = getRectSpan(element.getBoundingClientRect(), scrollRootRect, axis, reversed);
+        const state = intersectionStates.get(id);
+        collected.push({
+          id,
+          isIntersecting: state?.isIntersecting ?? false,
+          intersectionRatio: state?.intersectionRatio ?? 0,
+          startOffset: start,
+          endOffset: end,
+          size: end - start,
+          distanceToActiveLine: start - effectiveActiveLineOffset,
+          visibleSizeInZone: Math.max(0, Math.min(end, activeZoneEnd) - Math.max(start, effectiveActiveLineOffset)),
+          visibleSizeBeyondActiveLine: Math.max(0, Math.min(end, viewportSize) - Math.max(start, effectiveActiveLineOffset)),
+        });
+      });
+      return collected;
+    };
+
+    // 策略函数的上下文
+    const getStrategyContext = (): ActiveSectionStrategyContext => ({
+      axis,
+      activeLineOffset: effectiveActiveLineOffset,
+      activeZoneSize: activeZoneHeight,
+      viewportSize: getScrollRootSize(getScrollRootRect(scrollRoot), axis),
+      stickinessFactor,
+    });
+
+    // 调试记录器（仅在开启调试时创建）：记录激活区域的决策，并按动画帧生成调试快照
+    // 内联的 process.env.NODE_ENV 判断使生产构建中该分支连同 createDebugRecorder 一起被移除
+    const debugRecorder =
+      process.env.NODE_ENV !== 'production' && debugEnabled
+        ? createDebugRecorder({
+            getTrace: () => debugTraceRef.current,
+            getScore: () => strategyScoreRef.current,
+            getActiveId: () => activeTabRef.current,
+            collectEntries: collectSectionEntries,
+            getContext: getStrategyContext,
+            getSnapshotBase: () => ({
+              axis,
+              reversed,
+              rootRect: getScrollRootRect(scrollRoot),
+              activeLineOffset: effectiveActiveLineOffset,
+              activeZoneSize: activeZoneHeight,
+              activeId: activeTabRef.current,
+              isProgrammaticScroll: isProgrammaticScrollRef.current,
+            }),
+            onSnapshot: (snapshot) => {
+              debugSnapshotRef.current = snapshot;
+              debugListenersRef.current.forEach((listener) => listener(snapshot));
+            },
+          })
+        : null;
+
+    // 计算下一个激活的区域并交给调度函数更新
+    const evaluateActiveSection = () => {
+      // 如果是编程式滚动(即用户点击导航栏标签触发的滚动)，则不更新激活的区域
       if (isProgrammaticScrollRef.current) {
         return;
       }
 
       const currentActualActiveTabId = activeTabRef.current; // 获取当前实际激活的标签ID
-
-      // 处理 IntersectionObserver 的条目
-      const processedEntries = entries.map((entry) => ({
-        id: entry.target.id, // 目标元素的ID
-        isIntersecting: entry.isIntersecting, // 是否与根元素交叉
-        intersectionRatio: entry.intersectionRatio, // 交叉区域的比例
-        boundingClientRectTop: entry.boundingClientRect.top, // 目标元素相对于视口的顶部位置
-        // 计算在激活线下方可见的高度
-        visibleHeightBelowActiveLine: Math.max(
-          0,
-          (entry.intersectionRect?.bottom ?? 0) - effectiveActiveLineOffset
-        ),
-      }));
-      
-      // 筛选出当前可见的候选内容区域
-      const visibleCandidates = processedEntries.filter(
-        (item) =>
-          item.isIntersecting && // 必须与根元素交叉
-          item.visibleHeightBelowActiveLine > 0 && // 在激活线下方必须有可见高度
-          item.intersectionRatio > 0.05 // 确保至少有5%的交叉比例，以避免微小的交叉触发更新
+      const allEntries = collectSectionEntries();
+      // 多级区域中父区域通常包裹其子区域，当其子区域与激活区域交叉时优先选择更深层的子区域
+      const sectionEntries = allEntries.filter(
+        (entry) =>
+          !allEntries.some(
+            (other) => other.isIntersecting && isAncestorSection(entry.id, other.id, sectionParents)
+          )
       );
+      if (sectionEntries.length === 0) return;
 
-      // 如果没有强可见的候选区域
-      if (visibleCandidates.length === 0) {
-        // 检查当前激活的区域是否仍然稍微可见
-        const currentSectionEntry = processedEntries.find(e => e.id === currentActualActiveTabId);
-        if (currentSectionEntry?.isIntersecting && currentSectionEntry.intersectionRatio > 0.01) {
-            // 如果当前激活的区域仍然有一点可见，则不改变激活标签
-            // debouncedUpdateActiveTab(currentActualActiveTabId); // 可选：如果需要，可以重新确认当前标签
-            return;
+      const strategyContext = getStrategyContext();
+      // 滚动到末端时激活最后一个区域，即使它太短而无法到达激活线
+      if (isScrolledToEnd(scrollRoot, axis)) {
+        const lastSectionId = sectionEntries[sectionEntries.length - 1].id;
+        if (process.env.NODE_ENV !== 'production' && debugRecorder) {
+          debugRecorder.recordDecision('scrolled-to-end', sectionEntries, strategyContext, lastSectionId, false);
         }
-        // 如果没有任何区域可见，则不改变标签，或根据需要决定回退策略
+        scheduledUpdateActiveTab(lastSectionId);
         return;
       }
 
-      // 对可见的候选区域进行排序
-      visibleCandidates.sort((a, b) => {
-        // 主要排序：intersectionRatio (降序)
-        if (b.intersectionRatio !== a.intersectionRatio) {
-          return b.intersectionRatio - a.intersectionRatio;
+      const nextActiveId = strategyRef.current(sectionEntries, currentActualActiveTabId, strategyContext);
+      if (process.env.NODE_ENV !== 'production' && debugRecorder) {
+        // 以粘性因子为 1 重新运行策略，结果不同说明粘性因子让当前激活的区域得以保持
+        const unstuckId = strategyRef.current(sectionEntries, currentActualActiveTabId, {
+          ...strategyContext,
+          stickinessFactor: 1,
+        });
+        const stickinessOverride = !!unstuckId && unstuckId !== (nextActiveId || currentActualActiveTabId);
+        debugRecorder.recordDecision('strategy', sectionEntries, strategyContext, nextActiveId || null, stickinessOverride);
+      }
+      // 策略返回空值时表示保持当前激活的区域
+      if (nextActiveId) {
+        // 使用防抖函数更新激活的标签
+        scheduledUpdateActiveTab(nextActiveId);
+      }
+    };
+
+    // IntersectionObserver 的回调函数，当观察的元素与激活区域的交叉状态发生变化时调用
+    const observerCallback: IntersectionObserverCallback = (entries) => {
+      entries.forEach((entry) => {
+        const id = elementToSectionId.get(entry.target);
+        if (id) {
+          intersectionStates.set(id, {
+            isIntersecting: entry.isIntersecting, // 是否与激活区域交叉
+            intersectionRatio: entry.intersectionRatio, // 交叉区域的比例
+          });
         }
-        // 次要排序：visibleHeightBelowActiveLine (降序)
-        // 如果 intersectionRatio 相同，优先选择在激活线下方可见高度更大的
-        if (b.visibleHeightBelowActiveLine !== a.visibleHeightBelowActiveLine) {
-          return b.visibleHeightBelowActiveLine - a.visibleHeightBelowActiveLine;
+      });
+      if (process.env.NODE_ENV !== 'production' && debugRecorder) {
+        // 记录因编程式滚动而被忽略的回调
+        if (isProgrammaticScrollRef.current) {
+          debugRecorder.recordIgnoredScroll(
+            entries.map((entry) => elementToSectionId.get(entry.target)).filter((id): id is string => !!id)
+          );
         }
-        // 三级排序：元素顶部与激活线的接近程度 (升序)
-        // 如果以上都相同，优先选择顶部更接近激活线的
-        return (
-          Math.abs(a.boundingClientRectTop - effectiveActiveLineOffset) - 
-          Math.abs(b.boundingClientRectTop - effectiveActiveLineOffset)
-        );
+        debugRecorder.scheduleSnapshot();
+      }
+      evaluateActiveSection();
+    };
+
+    // 计算滚动进度并通知订阅者；没有订阅者且未开启 trackProgress 时跳过计算（force 为 true 时除外）
+    const emitProgress = (force = false) => {
+      const listeners = progressListenersRef.current;
+      if (!force && !trackProgress && listeners.size === 0) return;
+      const nextProgress = computeScrollProgress(scrollRoot, sectionElements, axis, reversed, effectiveActiveLineOffset);
+      if (isSameScrollProgress(nextProgress, latestProgressRef.current)) return;
+      latestProgressRef.current = nextProgress;
+      listeners.forEach((listener) => listener(nextProgress));
+      if (trackProgress) setProgress(nextProgress);
+    };
+
+    // 交叉状态只在越过阈值时变化，而 'first-below-line' 等策略、滚动到末端的判断和滚动进度需要随滚动更新
+    // 因此在滚动时按动画帧批量重新计算，每帧最多一次
+    let scrollFrameId: number | null = null;
+    const handleScroll = () => {
+      if (scrollFrameId !== null) return;
+      scrollFrameId = requestAnimationFrame(() => {
+        scrollFrameId = null;
+        evaluateActiveSection();
+        emitProgress();
+        if (process.env.NODE_ENV !== 'production') debugRecorder?.scheduleSnapshot();
       });
+    };
 
-      let newPotentialActiveId = visibleCandidates[0].id; // 将排序后的第一个候选区域作为潜在的新激活标签
-      const topSortedCandidate = visibleCandidates[0]; // 获取排序最高的候选者
+    // 创建 IntersectionObserver 实例
+    const observer = new IntersectionObserver(observerCallback, observerOptions);
 
-      // 查找当前激活的标签是否在可见候选列表中
-      const currentActiveCandidateInList = visibleCandidates.find(
-        (vc) => vc.id === currentActualActiveTabId
-      );
+    // 停留时间按区域在滚动根中的可见时间累计，而激活区域观察器的 rootMargin 只覆盖激活区域
+    // 因此使用不收缩 rootMargin 的观察器单独记录可见的区域
+    const dwellTracker = dwellTrackerRef.current;
+    const visibleSectionIds = new Set<string>();
+    const visibilityObserver = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const id = elementToSectionId.get(entry.target);
+          if (!id) return;
+          if (entry.isIntersecting) {
+            visibleSectionIds.add(id);
+          } else {
+            visibleSectionIds.delete(id);
+          }
+        });
+        dwellTracker.setVisibleSections(Array.from(visibleSectionIds));
+      },
+      { root: scrollContainer ?? null, threshold: 0 }
+    );
 
-      // 如果当前激活的标签在可见列表中，并且排序最高的候选者不是当前激活的标签
-      if (
-        currentActiveCandidateInList &&
-        topSortedCandidate.id !== currentActualActiveTabId
-      ) {
-        // 使用 intersectionRatio 进行粘性比较，因为它是主要的排序指标
-        const scoreNew = topSortedCandidate.intersectionRatio;
-        const scoreCurrent = currentActiveCandidateInList.intersectionRatio;
-        
-        // 应用粘性因子：只有当新候选者的得分显著高于当前激活候选者的得分时，才切换激活标签
-        if (scoreNew < scoreCurrent * stickinessFactor) { 
-          newPotentialActiveId = currentActualActiveTabId; // 保持当前激活的标签
-        }
+    // 开始观察一个区域元素；同一区域ID对应的旧元素会先被取消观察
+    const observeSection = (id: string, element: HTMLElement) => {
+      const previousElement = sectionElements.get(id);
+      if (previousElement === element) return;
+      if (previousElement) {
+        observer.unobserve(previousElement);
+        visibilityObserver.unobserve(previousElement);
+        elementToSectionId.delete(previousElement);
       }
-      // 使用防抖函数更新激活的标签
-      debouncedUpdateActiveTab(newPotentialActiveId);
+      elementToSectionId.set(element, id); // 记录元素对应的区域ID
+      sectionElements.set(id, element);
+      observer.observe(element); // 开始观察元素
+      visibilityObserver.observe(element);
     };
 
-    // 创建 IntersectionObserver 实例
-    const observer = new IntersectionObserver(observerCallback, observerOptions);
-    const elementsToObserve: HTMLElement[] = []; // 存储需要观察的元素
+    // 停止观察一个区域元素，并在下一帧重新计算激活的区域和滚动进度
+    const unobserveSection = (id: string, element: HTMLElement) => {
+      if (sectionElements.get(id) !== element) return;
+      observer.unobserve(element);
+      visibilityObserver.unobserve(element);
+      elementToSectionId.delete(element);
+      sectionElements.delete(id);
+      intersectionStates.delete(id);
+      if (visibleSectionIds.delete(id)) dwellTracker.setVisibleSections(Array.from(visibleSectionIds));
+      handleScroll();
+    };
 
     // 遍历所有内容区域，并开始观察它们
     Object.keys(sections).forEach((key) => {
       const sectionRef = sections[key];
       if (sectionRef?.current) {
-        elementsToObserve.push(sectionRef.current); // 将元素添加到待观察列表
-        observer.observe(sectionRef.current); // 开始观察元素
-      } else {
-        // 如果某个内容区域的元素未找到，发出警告
-        console.warn(`[useScrollSync Observer] Section element for key ${key} not found.`);
+        observeSection(key, sectionRef.current);
+      } else if (!registeredSectionsRef.current.has(key)) {
+        // 如果某个内容区域的元素未找到，发出警告；之后挂载的区域可通过 registerSection 注册
+        console.warn(`[useScrollSync Observer] Section element for key ${key} not found. Use registerSection(id) for sections that mount later.`);
       }
     });
+    // 观察已通过 registerSection 注册的区域
+    registeredSectionsRef.current.forEach((element, id) => {
+      if (!sectionElements.has(id)) observeSection(id, element);
+    });
+    // 之后注册或注销的区域通过该绑定同步到观察器
+    sectionObserverBindingRef.current = { observe: observeSection, unobserve: unobserveSection };
+    scrollRoot.addEventListener('scroll', handleScroll, { passive: true });
+    emitProgressRef.current = emitProgress;
+    emitProgress(); // 计算初始的滚动进度
+    // 开启 trackProgress 时进度可能已经由订阅者计算过，emitProgress 不会重复更新，因此同步一次 React 状态
+    if (trackProgress) setProgress(latestProgressRef.current);
+    if (process.env.NODE_ENV !== 'production') debugRecorder?.scheduleSnapshot(); // 生成初始的调试快照
 
-    // 清理函数：在组件卸载或依赖项变化时停止观察并清除超时
+    // 清理函数：在组件卸载或依赖项变化时停止观察
     return () => {
-      elementsToObserve.forEach((el) => observer.unobserve(el)); // 停止观察所有元素
-      if (programmaticScrollTimeoutRef.current) {
-        clearTimeout(programmaticScrollTimeoutRef.current); // 清除编程式滚动的超时
-      }
+      observer.disconnect(); // 停止观察所有元素
+      visibilityObserver.disconnect();
+      dwellTracker.setVisibleSections([]); // 结束当前的累计，重建后由新的观察器重新记录
+      scrollRoot.removeEventListener('scroll', handleScroll);
+      if (scrollFrameId !== null) cancelAnimationFrame(scrollFrameId);
+      if (process.env.NODE_ENV !== 'production') debugRecorder?.cancel();
+      if (emitProgressRef.current === emitProgress) emitProgressRef.current = null;
+      sectionObserverBindingRef.current = null;
     };
   }, [
     scrollContainerRef,
     navTabsRef, 
     sections,
-    debouncedUpdateActiveTab, // debouncedUpdateActiveTab 在此 effect 中使用
+    sectionParents,
+    scheduledUpdateActiveTab, // scheduledUpdateActiveTab 在此 effect 中使用
     observerThreshold,
     activeLineOffset,
     activeZoneHeight,
+    axis,
+    trackProgress,
+    debugEnabled,
+    layoutVersion, // 滚动容器或导航栏尺寸变化时重建观察器
     stickinessFactor, // stickinessFactor 在此 effect 的依赖项中使用
     // getInitialActiveTab, // 此 effect 不直接使用，但它影响 activeTab，而 activeTab 通过 activeTabRef 使用
   ]);
 
+  // useRef 用于存储导航标签元素，用于方向键导航时移动焦点
+  const tabElementsRef = useRef(new Map<string, HTMLElement>());
+  // useRef 用于缓存每个标签ID对应的 ref 回调，保证其引用稳定
+  const tabRefCallbacksRef = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  // useState 用于存储已注册的导航标签ID，标签注册或注销时重新渲染，以便更新漫游 tabIndex 和区域的 aria-labelledby
+  const [registeredTabIds, setRegisteredTabIds] = useState<ReadonlySet<string>>(() => new Set());
+
+  // useCallback 用于返回导航标签的 ref 回调
+  const registerTab = useCallback((id: string) => {
+    const refCallbacks = tabRefCallbacksRef.current;
+    let refCallback = refCallbacks.get(id);
+    if (!refCallback) {
+      refCallback = (element: HTMLElement | null) => {
+        if (element) {
+          tabElementsRef.current.set(id, element);
+          setRegisteredTabIds((prev) => (prev.has(id) ? prev : new Set(prev).add(id)));
+        } else {
+          tabElementsRef.current.delete(id);
+          setRegisteredTabIds((prev) => {
+            if (!prev.has(id)) return prev;
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+        }
+      };
+      refCallbacks.set(id, refCallback);
+    }
+    return refCallback;
+  }, []);
+
+  // useCallback 用于按文档顺序获取已注册的导航标签ID
+  const getOrderedTabIds = useCallback(() => {
+    const tabElements = tabElementsRef.current;
+    return Array.from(tabElements.keys()).sort((a, b) => {
+      const elementA = tabElements.get(a)!;
+      const elementB = tabElements.get(b)!;
+      return elementA.compareDocumentPosition(elementB) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+    });
+  }, []);
+
+  // useMemo 用于计算漫游 tabIndex 的目标：激活路径中最深的、已渲染导航标签的区域（例如只为章节渲染了标签时取章节）
+  // 激活路径上都没有导航标签时（如没有标签的引言区域）使用文档顺序中的第一个标签，保证键盘用户始终能通过 Tab 键进入导航栏
+  // 首次渲染时标签尚未注册，此时使用 activeTab，标签注册后会重新计算
+  const focusableTabId = useMemo(() => {
+    if (registeredTabIds.size === 0) return activeTab;
+    return [...activePath].reverse().find((id) => registeredTabIds.has(id)) ?? getOrderedTabIds()[0];
+  }, [activeTab, activePath, registeredTabIds, getOrderedTabIds]);
+
+  // useCallback 用于返回导航栏容器的属性
+  const getNavProps = useCallback(
+    (userProps: ScrollSyncUserProps = {}) => ({ ...userProps, role: 'navigation' as const }),
+    []
+  );
+
+  // useCallback 用于返回导航标签的属性
+  const getTabProps = useCallback((id: string, userProps: ScrollSyncUserProps = {}) => {
+    // 点击标签：滚动到对应区域，滚动完成后将焦点移动到激活的区域
+    const handleClick = () => {
+      void handleTabClick(id).then((result) => {
+        if (result !== 'completed') return;
+        getSectionElement(activeTabRef.current)?.focus({ preventScroll: true });
+      });
+    };
+
+    // 方向键/Home/End：按文档顺序在导航标签之间移动焦点并滚动到对应区域
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+      const tabIds = getOrderedTabIds();
+      const nextIndex = getNextTabIndex(event.key, tabIds.indexOf(id), tabIds.length);
+      if (nextIndex === null) return;
+      event.preventDefault(); // 阻止方向键和 Home/End 的默认页面滚动
+      const nextId = tabIds[nextIndex];
+      tabElementsRef.current.get(nextId)?.focus();
+      void handleTabClick(nextId);
+    };
+
+    return {
+      ...userProps,
+      id: getTabElementId(id),
+      ref: registerTab(id),
+      'aria-current': id === activeTab ? ('true' as const) : undefined,
+      'aria-controls': id,
+      tabIndex: id === focusableTabId ? (0 as const) : (-1 as const),
+      onClick: composeEventHandlers(userProps.onClick, handleClick),
+      onKeyDown: composeEventHandlers(userProps.onKeyDown, handleKeyDown),
+    };
+  }, [activeTab, focusableTabId, handleTabClick, getSectionElement, registerTab, getOrderedTabIds]);
+
+  // useCallback 用于返回内容区域的属性
+  // 只有该区域的导航标签已注册时才通过 aria-labelledby 引用它，避免指向不存在的元素；调用方传入的 aria-labelledby 优先
+  const getSectionProps = useCallback((id: string, userProps: ScrollSyncUserProps = {}) => ({
+    ...userProps,
+    id,
+    ref: registerSection(id),
+    tabIndex: -1 as const,
+    'aria-labelledby':
+      userProps['aria-labelledby'] ?? (registeredTabIds.has(id) ? getTabElementId(id) : undefined),
+  }), [registerSection, registeredTabIds]);
+
+  // useEffect 用于在组件卸载时取消进行中的编程式滚动监听
+  useEffect(() => {
+    return () => {
+      scrollEndWatcherRef.current?.cancel();
+    };
+  }, []);
+
   // 确保 hook 返回定义的 UseScrollSyncReturn 结构
-  return { activeTab, handleTabClick }; // 返回 activeTab 和 handleTabClick
+  return {
+    activeTab,
+    activePath,
+    handleTabClick,
+    progress: trackProgress ? progress : undefined, // 未开启 trackProgress 时不返回进度，避免误读始终为 0 的值
+    subscribeProgress,
+    registerSection,
+    getNavProps,
+    getTabProps,
+    getSectionProps,
+    getDwellTimes,
+    debug: debugApi,
+  };
 };
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { ScrollSyncContext } from '../context/ScrollSyncContext';
+import { ScrollSyncContextValue } from '../types';
+
+/**
+ * useScrollSyncContext Hook 用于在 ScrollSyncProvider 内部获取滚动同步的状态和方法。
+ * 适用于导航与内容位于不同子树（如侧边栏和主区域）的布局。
+ * @returns 返回与 useScrollSync 相同的状态和方法。
+ */
+export const useScrollSyncContext = (): ScrollSyncContextValue => {
+  const context = useContext(ScrollSyncContext);
+  if (!context) {
+    throw new Error('[useScrollSyncContext] must be used within a <ScrollSyncProvider>.');
+  }
+  return context;
+};
@@ -1,4 +1,6 @@
 export * from './hooks';
+export * from './components';
+export * from './context';
 export * from './types';
 export * from './utils';
 // Re-exporting for easier library consumption
@@ -1,27 +1,281 @@
+import type { ScrollAxis, ScrollRootRect } from '../utils/scrollRoot';
+import type { HistoryWriteMode } from '../utils/hash';
+import type { ScrollCompletion } from '../utils/scrollEnd';
+import type { ScrollEasingFn, ScrollEasingName } from '../utils/animation';
+import type { UpdateMode } from '../utils/scheduler';
+
+// 指向区域元素的 Ref
+export type SectionRef = React.RefObject<HTMLElement | null>;
+
+// 嵌套区域定义中的一个节点，用于多级目录（如章节和小节）
+export interface SectionNode {
+  // 区域ID（必须与元素 ID 匹配）
+  id: string;
+  // 指向区域元素的 Ref
+  ref: SectionRef;
+  // 子区域
+  children?: SectionNode[];
+}
+
+// 区域定义：扁平的 ID 到 Ref 的映射，或嵌套的 SectionNode 树
+export type SectionsDefinition = Record<string, SectionRef> | SectionNode[];
+
+// 点击带有子区域的父区域时的滚动目标
+// 'self' 滚动到父区域自身（标题），'first-visible-child' 滚动到第一个已渲染且可见的子区域
+export type ParentClickTarget = 'self' | 'first-visible-child';
+
+// 传给激活区域策略的单个区域数据
+// 所有偏移量都沿滚动轴方向、相对于滚动根的起始边计算（RTL 的 x 轴从右边缘向左计算），单位为像素
+export interface SectionEntryData {
+  // 区域ID
+  id: string;
+  // 是否与激活区域（由 rootMargin 收缩后的观察区域）交叉
+  isIntersecting: boolean;
+  // 与激活区域交叉的比例（来自 IntersectionObserver）
+  intersectionRatio: number;
+  // 区域起始边（纵向为顶部）的偏移量
+  startOffset: number;
+  // 区域末端边（纵向为底部）的偏移量
+  endOffset: number;
+  // 区域沿滚动轴的尺寸
+  size: number;
+  // 区域起始边到激活线的有符号距离，负数表示起始边已越过激活线
+  distanceToActiveLine: number;
+  // 区域在激活区域内的可见尺寸
+  visibleSizeInZone: number;
+  // 区域在激活线之后（纵向为激活线下方）直到滚动根末端的可见尺寸
+  visibleSizeBeyondActiveLine: number;
+}
+
+// 激活区域策略的上下文
+export interface ActiveSectionStrategyContext {
+  // 滚动轴
+  axis: ScrollAxis;
+  // 激活线相对于滚动根起始边的偏移量
+  activeLineOffset: number;
+  // 激活区域沿滚动轴的尺寸
+  activeZoneSize: number;
+  // 滚动根沿滚动轴的可视尺寸
+  viewportSize: number;
+  // 粘性因子
+  stickinessFactor: number;
+}
+
+// 自定义激活区域策略：根据按文档顺序排列的区域数据和当前激活的区域ID返回下一个激活的区域ID，返回 null 表示保持不变
+export type ActiveSectionStrategyFn = (
+  entries: SectionEntryData[],
+  currentActiveId: string,
+  context: ActiveSectionStrategyContext
+) => string | null | undefined;
+
+// 区域在某个策略下的得分，得分越高越优先
+export type ActiveSectionScoreFn = (entry: SectionEntryData, context: ActiveSectionStrategyContext) => number;
+
+// 内置的激活区域策略
+// 'max-ratio'：交叉比例最高者优先（默认）
+// 'first-below-line'：经典 scrollspy，第一个末端边越过激活线的区域
+// 'max-visible-pixels'：在激活区域内可见像素最多者优先，长区域不会输给完全可见的短区域
+// 'closest-to-center'：中心点最接近激活线之后可视区域中心的区域
+export type ActiveSectionStrategyName = 'max-ratio' | 'first-below-line' | 'max-visible-pixels' | 'closest-to-center';
+
+// 滚动进度
+export interface ScrollProgress {
+  // 每个区域相对于激活线的进度（0–1）：0 表示区域起始边尚未到达激活线，1 表示区域末端边已越过激活线
+  sections: Record<string, number>;
+  // 整体滚动进度（0–1）：已滚动距离 / 最大可滚动距离
+  overall: number;
+}
+
+// 滚动进度的订阅回调
+export type ScrollProgressListener = (progress: ScrollProgress) => void;
+
+// getNavProps 返回的导航栏属性
+export interface ScrollSyncNavProps {
+  role: 'navigation';
+  'aria-label'?: string;
+}
+
+// getTabProps 返回的导航标签属性
+export interface ScrollSyncTabProps {
+  id: string;
+  ref: (element: HTMLElement | null) => void;
+  'aria-current': 'true' | undefined;
+  'aria-controls': string;
+  // 漫游 tabIndex：只有当前激活的标签可以通过 Tab 键聚焦，其余标签通过方向键切换
+  tabIndex: 0 | -1;
+  onClick: React.MouseEventHandler<HTMLElement>;
+  onKeyDown: React.KeyboardEventHandler<HTMLElement>;
+}
+
+// getSectionProps 返回的内容区域属性
+export interface ScrollSyncSectionProps {
+  id: string;
+  ref: (element: HTMLElement | null) => void;
+  // 允许通过脚本聚焦区域，但不进入 Tab 键顺序
+  tabIndex: -1;
+  // 指向该区域的导航标签；标签未渲染时为 undefined，也可以通过 userProps 传入
+  'aria-labelledby': string | undefined;
+}
+
+// 可与 prop getter 合并的用户属性，事件处理函数会与内部处理函数组合
+export type ScrollSyncUserProps = Omit<React.HTMLAttributes<HTMLElement>, 'id'>;
+
+// JS 滚动动画配置，提供后点击滚动不再使用原生的平滑滚动，而是逐帧驱动滚动位置
+export interface ScrollAnimationOptions {
+  // 动画时长（毫秒），或根据滚动距离（像素）计算时长的函数，默认为 400
+  duration?: number | ((distance: number) => number);
+  // 缓动函数名称或自定义缓动函数，默认为 'ease-in-out-cubic'
+  easing?: ScrollEasingName | ScrollEasingFn;
+}
+
+// 调试面板中单个区域的实时数据
+export interface ScrollSyncDebugSection extends SectionEntryData {
+  // 区域在当前策略下的得分，自定义策略为 null
+  score: number | null;
+}
+
+// 调试快照：激活线、激活区域以及每个区域的实时数据
+export interface ScrollSyncDebugSnapshot {
+  axis: ScrollAxis;
+  // 是否为 RTL 下的 x 轴（偏移量从滚动根的右边缘开始计算）
+  reversed: boolean;
+  // 滚动根可视区域相对于视口的矩形
+  rootRect: ScrollRootRect;
+  // 生效的激活线偏移量
+  activeLineOffset: number;
+  // 激活区域的尺寸
+  activeZoneSize: number;
+  // 当前激活的区域ID
+  activeId: string;
+  // 是否正在进行编程式滚动
+  isProgrammaticScroll: boolean;
+  // 按文档顺序排列的区域数据
+  sections: ScrollSyncDebugSection[];
+}
+
+// 调试记录：激活区域的决策，或因编程式滚动而被忽略的 IntersectionObserver 回调
+export type ScrollSyncDebugEvent =
+  | {
+      type: 'decision';
+      time: number;
+      // 'strategy' 由策略决定；'scrolled-to-end' 滚动到末端时激活最后一个区域
+      reason: 'strategy' | 'scrolled-to-end';
+      // 参与决策的候选区域（已排除包含交叉子区域的父区域）
+      candidates: ScrollSyncDebugSection[];
+      previousId: string;
+      // 决策结果，null 表示保持不变
+      winnerId: string | null;
+      // 是否因粘性因子而保持了当前激活的区域（不使用粘性因子时会切换到其他区域）
+      stickinessOverride: boolean;
+    }
+  | {
+      type: 'ignored-programmatic-scroll';
+      time: number;
+      // 编程式滚动的目标区域
+      targetId: string;
+      // 回调中交叉状态发生变化的区域
+      sectionIds: string[];
+    };
+
+// 调试接口，仅在开启 debug 选项且非生产环境时提供
+export interface ScrollSyncDebugApi {
+  // 获取最新的调试快照，观察器尚未建立时为 null
+  getSnapshot: () => ScrollSyncDebugSnapshot | null;
+  // 订阅调试快照，每个动画帧最多通知一次；返回取消订阅的函数
+  subscribe: (listener: (snapshot: ScrollSyncDebugSnapshot) => void) => () => void;
+  // 按时间顺序返回环形缓冲区中的调试记录
+  getTrace: () => ScrollSyncDebugEvent[];
+  // 清空调试记录
+  clearTrace: () => void;
+}
+
+// 调试配置
+export interface ScrollSyncDebugOptions {
+  // 环形缓冲区保留的调试记录条数，默认为 100
+  traceSize?: number;
+}
+
+// 激活区域变化的原因：'scroll' 用户滚动，'click' 点击导航标签，'hash' URL hash（深链接或浏览器前进/后退），'initial' 初始值
+// 初始值来自深链接时同样为 'hash'
+export type SectionChangeCause = 'scroll' | 'click' | 'hash' | 'initial';
+
+// URL hash 同步的配置
+export interface HashSyncOptions {
+  // 滚动导致激活标签变化时写入历史记录的方式
+  scrollHistoryMode?: HistoryWriteMode; // 默认为 'replace'
+  // 调用 handleTabClick 时写入历史记录的方式
+  clickHistoryMode?: HistoryWriteMode; // 默认为 'push'
+}
+
 export interface ScrollSyncOptions {
-  debounceDelay?: number; // 滚动事件的防抖延迟时间（毫秒），默认为 150
-  stickinessFactor?: number; // 标签粘性因子，默认为 1.2
+  debounceDelay?: number; // 滚动事件的防抖延迟时间（毫秒），默认为 150；updateMode 为 'throttle' 时作为节流周期
+  // 滚动导致激活标签变化时的更新调度方式，默认为 'debounce'
+  // 'debounce' 滚动停止 debounceDelay 毫秒后更新；'throttle' 立即更新，之后每 debounceDelay 毫秒最多更新一次；'raf' 每个动画帧最多更新一次
+  updateMode?: UpdateMode;
+  stickinessFactor?: number; // 标签粘性因子，默认为 1.05，由内置策略（'first-below-line' 除外）用于避免在得分接近的区域之间频繁切换
   observerThreshold?: number | number[]; // IntersectionObserver 的阈值，默认为 [0.1, 0.25, 0.5, 0.75, 1.0]
-  // 从滚动容器顶部开始的偏移量，用于定义确定活动区域的“激活线”
-  // 如果提供了 navTabsRef，则默认为 navTabsRef.current.offsetHeight + 5
+  // 从滚动容器（window 模式下为视口）起始边开始的偏移量，用于定义确定活动区域的“激活线”
+  // 纵向滚动时如果提供了 navTabsRef，则默认为 navTabsRef.current.offsetHeight + 5；横向滚动时默认为 0
+  // RTL 容器的横向滚动中，起始边为右边缘
   activeLineOffset?: number; 
-  // 激活线下方用于考虑激活某个区域的高度
+  // 激活线之后（沿滚动轴方向）用于考虑激活某个区域的尺寸
   activeZoneHeight?: number; // 默认为 200
   // 点击标签时的默认滚动行为
   defaultScrollBehavior?: ScrollBehavior; // 默认为 'smooth'
+  // 滚动轴：'y' 为纵向滚动，'x' 为横向滚动（支持 RTL 容器）
+  axis?: ScrollAxis; // 默认为 'y'
+  // 是否将激活的区域同步到 URL hash（如 #pricing），默认为 false
+  // 启用后：挂载时 URL hash 指向的区域优先于 initialActiveTab 并会滚动到该区域；浏览器前进/后退会在区域之间切换
+  // 传入 true 使用默认的历史记录写入方式，或传入对象分别配置滚动和点击时的写入方式（'none' 表示不写入）
+  hashSync?: boolean | HashSyncOptions;
+  // 点击带有子区域的父区域时的滚动目标，默认为 'self'
+  parentClickTarget?: ParentClickTarget;
+  // 选择激活区域的策略：内置策略名称或自定义函数，默认为 'max-ratio'
+  // 无论使用哪种策略，滚动到末端时最后一个区域都会被激活（即使它很短）
+  strategy?: ActiveSectionStrategyName | ActiveSectionStrategyFn;
+  // 是否将滚动进度作为 React 状态通过 progress 返回，默认为 false
+  // 进度按动画帧批量更新，每帧最多触发一次重新渲染；只需驱动 CSS 变量等场景可改用 subscribeProgress，不会触发重新渲染
+  trackProgress?: boolean;
+  // 是否遵循系统的“减少动态效果”设置：开启时强制使用 behavior: 'auto'，默认为 true
+  respectReducedMotion?: boolean;
+  // 请求渲染尚未渲染的区域（如虚拟列表中的区域），可以返回 Promise
+  // 点击的目标区域元素不存在时调用，之后等待区域通过 registerSection 挂载，再执行精确滚动
+  ensureSectionRendered?: (sectionId: string) => void | Promise<void>;
+  // 估算尚未渲染的区域在滚动根内容坐标系中的起始偏移量，无法估算时返回 null
+  // 提供时会先瞬间跳转到估算位置附近（粗略跳转），待区域挂载后再校正到精确位置
+  estimateSectionOffset?: (sectionId: string) => number | null | undefined;
+  // 等待未渲染区域挂载的超时时间（毫秒），超时后放弃滚动，默认为 1000
+  sectionMountTimeout?: number;
+  // JS 滚动动画配置，未提供时使用原生的平滑滚动
+  // 瞬间滚动（behavior: 'auto'，如开启了“减少动态效果”）不使用动画
+  scrollAnimation?: ScrollAnimationOptions;
+  // 编程式滚动开始时调用
+  onScrollStart?: (sectionId: string) => void;
+  // 编程式滚动结束或被打断时调用
+  onScrollComplete?: (sectionId: string, result: ScrollCompletion) => void;
+  // 是否开启调试：记录激活区域的决策，并通过 debug 返回值提供给 ScrollSyncDebugOverlay，默认为 false
+  // 生产环境（process.env.NODE_ENV === 'production'）下始终关闭，相关代码会被打包工具移除；UMD 包中缺少 process 时视为非生产环境
+  debug?: boolean | ScrollSyncDebugOptions;
 }
 
 export interface UseScrollSyncProps {
-  // 指向可滚动容器元素的 Ref
-  scrollContainerRef: React.RefObject<HTMLElement | null>;
+  // 指向可滚动容器元素的 Ref（可选）
+  // 未提供时进入 window 模式：以视口作为 IntersectionObserver 的根，并滚动整个文档
+  scrollContainerRef?: React.RefObject<HTMLElement | null>;
   // 指向导航标签容器的 Ref（可选，用于计算默认的 activeLineOffset）
   navTabsRef?: React.RefObject<HTMLElement | null>;
   // 一个记录，其中键是唯一的区域 ID（必须与元素 ID 匹配），值是指向区域 HTMLElement 的 Ref
-  sections: Record<string, React.RefObject<HTMLElement | null>>;
+  // 也可以传入嵌套的 SectionNode 数组来定义多级区域；只通过 registerSection 注册区域时可以省略
+  // 按区域ID、层级和 Ref 判断是否变化，无需使用 useMemo 保持引用稳定
+  sections?: SectionsDefinition;
   // 初始应激活的标签/区域的 ID
   initialActiveTab?: string;
-  // 当由于滚动或点击导致活动标签更改时触发的回调函数
-  onActiveTabChange?: (tabId: string) => void;
+  // 当由于滚动或点击导致活动标签更改时触发的回调函数，activePath 为从顶层区域到活动区域的完整路径
+  onActiveTabChange?: (tabId: string, activePath: string[]) => void;
+  // 区域进入激活路径时触发（多级区域中父区域先于子区域），cause 为变化的原因
+  onSectionEnter?: (sectionId: string, cause: SectionChangeCause) => void;
+  // 区域离开激活路径时触发（多级区域中子区域先于父区域），cause 为变化的原因
+  onSectionLeave?: (sectionId: string, cause: SectionChangeCause) => void;
   // Hook 的配置选项
   options?: ScrollSyncOptions;
 }
@@ -29,10 +283,103 @@ export interface UseScrollSyncProps {
 export interface UseScrollSyncReturn {
   // 当前活动的标签/区域的 ID
   activeTab: string;
+  // 从顶层区域到当前活动区域的完整路径，例如 ['chapter-3', 'chapter-3-2']
+  activePath: string[];
   // 处理导航标签点击的函数，滚动到相应的区域
-  handleTabClick: (tabId: string, behavior?: ScrollBehavior) => void;
+  // 返回的 Promise 在滚动结束时以 'completed' resolve，被用户输入（滚轮、触摸、按键）或新的点击打断时以 'interrupted' resolve
+  handleTabClick: (tabId: string, behavior?: ScrollBehavior) => Promise<ScrollCompletion>;
+  // 当前的滚动进度，随滚动按动画帧更新；仅在 options.trackProgress 为 true 时提供，否则为 undefined
+  progress?: ScrollProgress;
+  // 订阅滚动进度，按动画帧批量回调，不会触发 React 重新渲染；返回取消订阅的函数
+  subscribeProgress: (listener: ScrollProgressListener) => () => void;
+  // 返回区域的 ref 回调（例如 <section id="intro" ref={registerSection('intro')} />），区域挂载时开始观察，卸载时停止观察
+  // 同一区域ID返回的回调引用保持不变
+  registerSection: (id: string) => (element: HTMLElement | null) => void;
+  // 返回导航栏容器的属性
+  getNavProps: (userProps?: ScrollSyncUserProps) => ScrollSyncNavProps & ScrollSyncUserProps;
+  // 返回导航标签的属性：aria-current、aria-controls、漫游 tabIndex，以及点击滚动和方向键/Home/End 键盘导航
+  // 点击滚动完成后焦点会移动到对应区域
+  getTabProps: (id: string, userProps?: ScrollSyncUserProps) => ScrollSyncTabProps & ScrollSyncUserProps;
+  // 返回内容区域的属性：观察器所需的 id 和 ref，以及可聚焦的 tabIndex
+  getSectionProps: (id: string, userProps?: ScrollSyncUserProps) => ScrollSyncSectionProps & ScrollSyncUserProps;
+  // 返回每个区域在滚动根中可见（与滚动根相交）的累计时间（毫秒），同时可见的多个区域会同时累计；页面不可见和编程式滚动期间不累计
+  getDwellTimes: () => Record<string, number>;
+  // 调试接口，未开启 debug 选项或在生产环境下为 null
+  debug: ScrollSyncDebugApi | null;
   // 由 Hook 附加到滚动容器的 Ref（内部使用，但如果需要则公开）
   // internalScrollContainerRef: React.RefObject<HTMLElement | null>;
   // 由 Hook 附加到导航标签的 Ref（内部使用）
   // internalNavTabsRef: React.RefObject<HTMLElement | null>;
 }
+
+// ScrollSyncProvider 通过 context 提供的值
+export interface ScrollSyncContextValue extends UseScrollSyncReturn {
+  // 注册滚动容器元素（由 ScrollContainer 调用），未注册时使用 window 滚动
+  registerContainer: (element: HTMLElement | null) => void;
+  // 注册导航栏元素（由 ScrollNav 调用），用于计算激活线偏移量
+  registerNav: (element: HTMLElement | null) => void;
+}
+
+export interface ScrollSyncProviderProps
+  extends Omit<UseScrollSyncProps, 'scrollContainerRef' | 'navTabsRef' | 'sections'> {
+  // （可选）区域定义；通过 ScrollSection 注册的区域无需在此列出
+  sections?: SectionsDefinition;
+  children?: React.ReactNode;
+}
+
+export type ScrollContainerProps = React.HTMLAttributes<HTMLDivElement>;
+
+export type ScrollNavProps = React.HTMLAttributes<HTMLElement>;
+
+export interface ScrollSectionProps extends Omit<React.HTMLAttributes<HTMLElement>, 'id'> {
+  // 区域ID，同时作为元素的 id 属性
+  id: string;
+}
+
+// ScrollNavLink 渲染函数接收的状态
+export interface ScrollNavLinkState {
+  // 链接指向的区域是否为当前激活的区域
+  isActive: boolean;
+  // 链接指向的区域是否位于激活路径上（多级区域中的父区域）
+  isInActivePath: boolean;
+}
+
+export interface ScrollNavLinkProps
+  extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'id' | 'children'> {
+  // 链接指向的区域ID
+  to: string;
+  // 子元素，或接收链接状态的渲染函数
+  children?: React.ReactNode | ((state: ScrollNavLinkState) => React.ReactNode);
+}
+
+// 多窗格联动滚动的配置选项
+export interface LinkedScrollOptions {
+  // 滚动轴，默认为 'y'
+  axis?: ScrollAxis;
+  // 激活线相对于窗格起始边的偏移量（像素），以激活线所在区域及其进度作为同步锚点，默认为 0
+  activeLineOffset?: number;
+  // 是否启用联动，默认为 true
+  enabled?: boolean;
+}
+
+export interface UseLinkedScrollProps {
+  // 各窗格的滚动容器引用，数组应保持稳定（如使用 useMemo）
+  panes: React.RefObject<HTMLElement | null>[];
+  // 各窗格共有的区域ID，按文档顺序排列，数组应保持稳定
+  sections: string[];
+  options?: LinkedScrollOptions;
+}
+
+export interface UseLinkedScrollReturn {
+  // 返回窗格中某个区域的 ref 回调，同一区域在不同窗格中使用相同的区域ID
+  registerSection: (paneIndex: number, sectionId: string) => (element: HTMLElement | null) => void;
+  // 以指定窗格为源，立即将其他窗格同步到对应位置（如内容变化后）
+  syncFrom: (paneIndex: number) => void;
+}
+
+export interface ScrollSyncDebugOverlayProps {
+  // （可选）调试接口，默认从 ScrollSyncProvider 的 context 中读取；直接使用 useScrollSync 时传入其返回的 debug
+  debug?: ScrollSyncDebugApi | null;
+  // 面板中展示的最近调试记录条数，默认为 5
+  traceLimit?: number;
+}
@@ -0,0 +1,39 @@
+import type { SyntheticEvent } from 'react';
+
+// 判断用户是否在系统中开启了“减少动态效果”
+export const prefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+// 根据区域ID生成导航标签元素的 id，用于 aria-labelledby
+export const getTabElementId = (sectionId: string): string => `scroll-sync-tab-${sectionId}`;
+
+// 根据按键计算导航标签之间移动后的目标下标，不是导航按键时返回 null
+// 同时支持横向（ArrowLeft/ArrowRight）和纵向（ArrowUp/ArrowDown）排列的导航栏，到达两端时循环
+export const getNextTabIndex = (key: string, currentIndex: number, tabCount: number): number | null => {
+  if (tabCount === 0) return null;
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return (currentIndex + 1) % tabCount;
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return (currentIndex - 1 + tabCount) % tabCount;
+    case 'Home':
+      return 0;
+    case 'End':
+      return tabCount - 1;
+    default:
+      return null;
+  }
+};
+
+// 组合用户传入的事件处理函数与内部的事件处理函数：先调用用户的，用户调用 preventDefault 后不再执行内部处理
+export const composeEventHandlers = <E extends SyntheticEvent>(
+  userHandler: ((event: E) => void) | undefined,
+  internalHandler: (event: E) => void
+) => (event: E) => {
+  userHandler?.(event);
+  if (!event.defaultPrevented) internalHandler(event);
+};
@@ -0,0 +1,97 @@
+import type { ScrollCompletion, ScrollEndWatcher } from './scrollEnd';
+import { listenForScrollInterruption } from './scrollEnd';
+import { ScrollAxis, ScrollRoot, clampScrollPosition, getScrollPosition, scrollRootTo } from './scrollRoot';
+
+// 缓动函数：输入 0–1 的时间进度，返回 0–1 的位移进度
+export type ScrollEasingFn = (t: number) => number;
+
+// 内置缓动函数名称
+export type ScrollEasingName =
+  | 'linear'
+  | 'ease-in-quad'
+  | 'ease-out-quad'
+  | 'ease-in-out-quad'
+  | 'ease-out-cubic'
+  | 'ease-in-out-cubic';
+
+// 内置缓动函数表
+export const scrollEasings: Record<ScrollEasingName, ScrollEasingFn> = {
+  linear: (t) => t,
+  'ease-in-quad': (t) => t * t,
+  'ease-out-quad': (t) => t * (2 - t),
+  'ease-in-out-quad': (t) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+  'ease-out-cubic': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out-cubic': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+// 将缓动函数名称或自定义函数解析为缓动函数
+export const resolveScrollEasing = (easing: ScrollEasingName | ScrollEasingFn): ScrollEasingFn =>
+  typeof easing === 'function' ? easing : scrollEasings[easing];
+
+export interface AnimateScrollOptions {
+  // 滚动轴
+  axis?: ScrollAxis;
+  // 是否为 RTL 下的 x 轴，用于将目标位置限制在可滚动范围内
+  reversed?: boolean;
+  // 动画时长（毫秒）
+  duration: number;
+  // 缓动函数
+  easing: ScrollEasingFn;
+}
+
+/**
+ * 使用 requestAnimationFrame 将滚动根以动画方式滚动到目标位置。
+ * 用户通过滚轮、触摸或按键接管滚动，或调用 cancel 时动画立即停止。
+ * @param root - 要滚动的滚动根。
+ * @param target - 目标滚动位置。
+ * @param options - 动画配置。
+ * @returns 返回与 watchScrollEnd 相同形式的滚动结束监听器。
+ */
+export const animateScroll = (root: ScrollRoot, target: number, options: AnimateScrollOptions): ScrollEndWatcher => {
+  const { axis = 'y', reversed = false, duration, easing } = options;
+  // 目标位置超出可滚动范围时，动画会在末尾“停顿”，因此先限制目标位置
+  const to = clampScrollPosition(root, target, axis, reversed);
+  const from = getScrollPosition(root, axis);
+
+  let settled = false;
+  let frameId: number | null = null;
+  let resolvePromise: (result: ScrollCompletion) => void = () => {};
+  const promise = new Promise<ScrollCompletion>((resolve) => {
+    resolvePromise = resolve;
+  });
+  let removeInterruptionListeners: () => void = () => {};
+
+  // 清理监听器并 resolve promise（只会生效一次）
+  const finish = (result: ScrollCompletion) => {
+    if (settled) return;
+    settled = true;
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    removeInterruptionListeners();
+    resolvePromise(result);
+  };
+
+  // 距离为 0 或时长不大于 0 时直接跳转到目标位置
+  if (from === to || duration <= 0) {
+    scrollRootTo(root, to, 'instant', axis);
+    finish('completed');
+    return { promise, cancel: () => finish('interrupted') };
+  }
+
+  removeInterruptionListeners = listenForScrollInterruption(() => finish('interrupted'));
+
+  let startTime: number | null = null;
+  const step = (timestamp: number) => {
+    if (startTime === null) startTime = timestamp;
+    const t = Math.min(1, (timestamp - startTime) / duration);
+    // 使用 'instant' 而不是 'auto'，避免容器上的 CSS scroll-behavior: smooth 与逐帧动画相互干扰
+    scrollRootTo(root, from + (to - from) * easing(t), 'instant', axis);
+    if (t >= 1) {
+      finish('completed');
+      return;
+    }
+    frameId = requestAnimationFrame(step);
+  };
+  frameId = requestAnimationFrame(step);
+
+  return { promise, cancel: () => finish('interrupted') };
+};
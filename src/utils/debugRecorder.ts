@@ -0,0 +1,131 @@
+import type {
+  ActiveSectionScoreFn,
+  ActiveSectionStrategyContext,
+  ScrollSyncDebugApi,
+  ScrollSyncDebugEvent,
+  ScrollSyncDebugSection,
+  ScrollSyncDebugSnapshot,
+  SectionEntryData,
+} from '../types';
+import { RingBuffer } from './ringBuffer';
+
+// 调试记录器读取 useScrollSync 状态的方式，均为函数以便读取 ref 中的最新值
+export interface DebugRecorderOptions {
+  // 调试记录的环形缓冲区
+  getTrace: () => RingBuffer<ScrollSyncDebugEvent> | null;
+  // 当前策略的得分函数，自定义策略为 null
+  getScore: () => ActiveSectionScoreFn | null;
+  // 当前激活的区域ID
+  getActiveId: () => string;
+  // 按文档顺序收集所有区域的实时数据
+  collectEntries: () => SectionEntryData[];
+  // 当前的策略上下文
+  getContext: () => ActiveSectionStrategyContext;
+  // 生成快照中除区域数据以外的部分
+  getSnapshotBase: () => Omit<ScrollSyncDebugSnapshot, 'sections'>;
+  // 生成新的快照后调用
+  onSnapshot: (snapshot: ScrollSyncDebugSnapshot) => void;
+}
+
+// 调试记录器：记录激活区域的决策，并按动画帧生成调试快照
+export interface DebugRecorder {
+  recordDecision: (
+    reason: 'strategy' | 'scrolled-to-end',
+    entries: SectionEntryData[],
+    context: ActiveSectionStrategyContext,
+    winnerId: string | null,
+    stickinessOverride: boolean
+  ) => void;
+  // 记录因编程式滚动而被忽略的观察器回调
+  recordIgnoredScroll: (sectionIds: string[]) => void;
+  scheduleSnapshot: () => void;
+  // 取消尚未生成的快照
+  cancel: () => void;
+}
+
+// 为区域数据附加当前策略下的得分
+const toDebugSections = (
+  entries: SectionEntryData[],
+  context: ActiveSectionStrategyContext,
+  scoreFn: ActiveSectionScoreFn | null
+): ScrollSyncDebugSection[] =>
+  entries.map((entry) => ({ ...entry, score: scoreFn ? scoreFn(entry, context) : null }));
+
+// 创建调试记录器
+export const createDebugRecorder = ({
+  getTrace,
+  getScore,
+  getActiveId,
+  collectEntries,
+  getContext,
+  getSnapshotBase,
+  onSnapshot,
+}: DebugRecorderOptions): DebugRecorder => {
+  let lastDecisionKey = '';
+  let frameId: number | null = null;
+
+  return {
+    // 与上一次记录相同的决策不重复记录，避免每帧滚动都写入缓冲区
+    recordDecision: (reason, entries, context, winnerId, stickinessOverride) => {
+      const previousId = getActiveId();
+      // 结果不变且没有粘性因子介入时不是有意义的决策
+      if ((winnerId ?? previousId) === previousId && !stickinessOverride) return;
+      const decisionKey = `${reason}|${previousId}|${winnerId}|${stickinessOverride}`;
+      if (decisionKey === lastDecisionKey) return;
+      lastDecisionKey = decisionKey;
+      getTrace()?.push({
+        type: 'decision',
+        time: performance.now(),
+        reason,
+        candidates: toDebugSections(entries, context, getScore()),
+        previousId,
+        winnerId,
+        stickinessOverride,
+      });
+    },
+    recordIgnoredScroll: (sectionIds) => {
+      getTrace()?.push({
+        type: 'ignored-programmatic-scroll',
+        time: performance.now(),
+        targetId: getActiveId(),
+        sectionIds,
+      });
+    },
+    scheduleSnapshot: () => {
+      if (frameId !== null) return;
+      frameId = requestAnimationFrame(() => {
+        frameId = null;
+        onSnapshot({ ...getSnapshotBase(), sections: toDebugSections(collectEntries(), getContext(), getScore()) });
+      });
+    },
+    cancel: () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+    },
+  };
+};
+
+/**
+ * 创建供 ScrollSyncDebugOverlay 和调用方使用的调试接口。
+ * @param getSnapshot - 读取最新的调试快照。
+ * @param listeners - 调试快照的订阅者集合。
+ * @param getTrace - 读取调试记录的环形缓冲区。
+ * @returns 返回调试接口。
+ */
+export const createDebugApi = (
+  getSnapshot: () => ScrollSyncDebugSnapshot | null,
+  listeners: Set<(snapshot: ScrollSyncDebugSnapshot) => void>,
+  getTrace: () => RingBuffer<ScrollSyncDebugEvent> | null
+): ScrollSyncDebugApi => ({
+  getSnapshot,
+  subscribe: (listener) => {
+    listeners.add(listener);
+    const snapshot = getSnapshot();
+    if (snapshot) listener(snapshot);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  getTrace: () => getTrace()?.toArray() ?? [],
+  clearTrace: () => getTrace()?.clear(),
+});
@@ -0,0 +1,57 @@
+// 暂停累计停留时间的原因：'hidden' 页面不可见，'programmatic-scroll' 正在进行编程式滚动
+export type DwellPauseReason = 'hidden' | 'programmatic-scroll';
+
+// 区域停留时间统计器
+export interface DwellTimeTracker {
+  // 设置当前正在累计停留时间的区域（在滚动根中可见的区域）
+  setVisibleSections: (sectionIds: string[]) => void;
+  // 按原因暂停或恢复累计，任一原因生效时都会暂停
+  setPaused: (reason: DwellPauseReason, paused: boolean) => void;
+  // 返回每个区域累计的停留时间（毫秒），包括当前尚未结束的一段
+  getDwellTimes: () => Record<string, number>;
+}
+
+// 创建区域停留时间统计器
+export const createDwellTimeTracker = (now: () => number = () => performance.now()): DwellTimeTracker => {
+  const totals: Record<string, number> = {};
+  const pauseReasons = new Set<DwellPauseReason>();
+  let visibleSectionIds: string[] = [];
+  let segmentStart: number | null = null; // 当前这一段的开始时间，未在累计时为 null
+
+  // 将当前这一段的时长累计到正在统计的区域，并从现在开始新的一段
+  const flush = () => {
+    if (segmentStart === null) return;
+    const currentTime = now();
+    const elapsed = currentTime - segmentStart;
+    visibleSectionIds.forEach((id) => {
+      totals[id] = (totals[id] ?? 0) + elapsed;
+    });
+    segmentStart = currentTime;
+  };
+
+  // 根据暂停状态和统计的区域决定是否开始新的一段
+  const restartSegment = () => {
+    segmentStart = pauseReasons.size === 0 && visibleSectionIds.length > 0 ? now() : null;
+  };
+
+  return {
+    setVisibleSections: (sectionIds) => {
+      flush();
+      visibleSectionIds = sectionIds;
+      restartSegment();
+    },
+    setPaused: (reason, paused) => {
+      flush();
+      if (paused) {
+        pauseReasons.add(reason);
+      } else {
+        pauseReasons.delete(reason);
+      }
+      restartSegment();
+    },
+    getDwellTimes: () => {
+      flush();
+      return { ...totals };
+    },
+  };
+};
@@ -0,0 +1,31 @@
+// 写入浏览器历史记录的方式：'push' 新增历史记录，'replace' 替换当前记录，'none' 不写入
+export type HistoryWriteMode = 'push' | 'replace' | 'none';
+
+// 从当前 URL 的 hash 中读取区域ID，仅当其存在于 sectionIds 中时返回
+export const readHashSectionId = (sectionIds: string[]): string | null => {
+  if (typeof window === 'undefined') return null; // 非浏览器环境（如 SSR）下不读取
+  const rawHash = window.location.hash.slice(1); // 去掉开头的 '#'
+  if (!rawHash) return null;
+  let sectionId = rawHash;
+  try {
+    sectionId = decodeURIComponent(rawHash);
+  } catch {
+    // hash 不是合法的 URI 编码时直接使用原值
+  }
+  return sectionIds.includes(sectionId) ? sectionId : null;
+};
+
+// 将区域ID写入 URL 的 hash
+// 使用 history API 而不是直接修改 location.hash，避免触发浏览器的锚点跳转和 hashchange 事件
+export const writeHashSectionId = (sectionId: string, mode: HistoryWriteMode): void => {
+  if (mode === 'none' || typeof window === 'undefined') return;
+  const nextHash = `#${encodeURIComponent(sectionId)}`;
+  if (window.location.hash === nextHash) return; // hash 未变化时不写入，避免产生重复的历史记录
+  const { pathname, search } = window.location;
+  const url = `${pathname}${search}${nextHash}`;
+  if (mode === 'push') {
+    window.history.pushState(window.history.state, '', url);
+  } else {
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
@@ -1,2 +1,15 @@
-export * from './debounce';
+export * from './scheduler';
+export * from './scrollRoot';
+export * from './hash';
+export * from './sectionTree';
+export * from './scrollEnd';
+export * from './strategies';
+export * from './progress';
+export * from './a11y';
+export * from './virtualization';
+export * from './animation';
+export * from './linkedScroll';
+export * from './ringBuffer';
+export * from './debugRecorder';
+export * from './dwellTime';
 // Potentially other utils can be exported from here
@@ -0,0 +1,68 @@
+import { computeScrollProgress } from './progress';
+import {
+  ScrollAxis,
+  ScrollRoot,
+  getScrollRootRect,
+  getRectSpan,
+  getElementScrollOffset,
+  getAlignedScrollPosition,
+} from './scrollRoot';
+
+// 联动滚动的锚点：激活线所在的区域，以及激活线在该区域内走过的比例
+export interface SectionAnchor {
+  id: string;
+  progress: number;
+}
+
+/**
+ * 获取窗格当前的同步锚点。
+ * 锚点为激活线已进入的最后一个区域；激活线尚未到达任何区域时为第一个区域的起点。
+ * @param root - 窗格的滚动根。
+ * @param elements - 区域ID到元素的映射，按文档顺序排列。
+ * @param axis - 滚动轴。
+ * @param reversed - 是否为 RTL 下的 x 轴。
+ * @param activeLineOffset - 激活线相对于滚动根起始边的偏移量。
+ * @returns 返回同步锚点，没有区域时返回 null。
+ */
+export const getSectionAnchor = (
+  root: ScrollRoot,
+  elements: Map<string, Element>,
+  axis: ScrollAxis,
+  reversed: boolean,
+  activeLineOffset: number
+): SectionAnchor | null => {
+  const { sections } = computeScrollProgress(root, elements, axis, reversed, activeLineOffset);
+  const ids = Array.from(elements.keys());
+  if (ids.length === 0) return null;
+  for (let i = ids.length - 1; i >= 0; i -= 1) {
+    if (sections[ids[i]] > 0) return { id: ids[i], progress: sections[ids[i]] };
+  }
+  return { id: ids[0], progress: 0 };
+};
+
+/**
+ * 计算让锚点对齐到激活线时窗格应滚动到的位置。
+ * @param element - 锚点区域在该窗格中的元素。
+ * @param root - 窗格的滚动根。
+ * @param progress - 锚点的进度。
+ * @param axis - 滚动轴。
+ * @param reversed - 是否为 RTL 下的 x 轴。
+ * @param activeLineOffset - 激活线相对于滚动根起始边的偏移量。
+ * @returns 返回滚动位置。
+ */
+export const getAnchorScrollPosition = (
+  element: HTMLElement,
+  root: ScrollRoot,
+  progress: number,
+  axis: ScrollAxis,
+  reversed: boolean,
+  activeLineOffset: number
+): number => {
+  const { start, end } = getRectSpan(element.getBoundingClientRect(), getScrollRootRect(root), axis, reversed);
+  const elementOffset = getElementScrollOffset(element, root, axis, reversed);
+  // RTL 的 x 轴上区域沿负方向延伸
+  const anchorOffset = reversed
+    ? elementOffset - progress * (end - start)
+    : elementOffset + progress * (end - start);
+  return getAlignedScrollPosition(anchorOffset, activeLineOffset, reversed);
+};
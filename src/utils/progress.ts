@@ -0,0 +1,59 @@
+import type { ScrollProgress } from '../types';
+import {
+  ScrollAxis,
+  ScrollRoot,
+  isWindowRoot,
+  getScrollPosition,
+  getScrollRootRect,
+  getRectSpan,
+} from './scrollRoot';
+
+// 将数值限制在 0–1 之间
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+// 计算整体滚动进度：已滚动距离 / 最大可滚动距离，内容不可滚动时为 0
+export const getOverallScrollProgress = (root: ScrollRoot, axis: ScrollAxis = 'y'): number => {
+  const element = isWindowRoot(root) ? document.documentElement : root;
+  const scrollSize = axis === 'y' ? element.scrollHeight : element.scrollWidth;
+  const clientSize = axis === 'y' ? element.clientHeight : element.clientWidth;
+  const maxScroll = scrollSize - clientSize;
+  if (maxScroll <= 0) return 0;
+  // RTL 容器中 scrollLeft 为负数，取绝对值
+  return clamp01(Math.abs(getScrollPosition(root, axis)) / maxScroll);
+};
+
+/**
+ * 计算每个区域相对于激活线的进度以及整体滚动进度。
+ * 区域进度为激活线在区域内走过的比例：0 表示区域起始边尚未到达激活线，1 表示区域末端边已越过激活线。
+ * @param root - 滚动根。
+ * @param elements - 区域ID到元素的映射。
+ * @param axis - 滚动轴。
+ * @param reversed - 是否为 RTL 下的 x 轴。
+ * @param activeLineOffset - 激活线相对于滚动根起始边的偏移量。
+ * @returns 返回滚动进度。
+ */
+export const computeScrollProgress = (
+  root: ScrollRoot,
+  elements: Map<string, Element>,
+  axis: ScrollAxis,
+  reversed: boolean,
+  activeLineOffset: number
+): ScrollProgress => {
+  const rootRect = getScrollRootRect(root);
+  const sections: Record<string, number> = {};
+  elements.forEach((element, id) => {
+    const { start, end } = getRectSpan(element.getBoundingClientRect(), rootRect, axis, reversed);
+    const size = end - start;
+    // 尺寸为 0 的区域（如未显示）只区分“未到达”和“已越过”
+    sections[id] = size > 0 ? clamp01((activeLineOffset - start) / size) : activeLineOffset >= start ? 1 : 0;
+  });
+  return { sections, overall: getOverallScrollProgress(root, axis) };
+};
+
+// 判断两次进度是否相同，用于避免无意义的重新渲染
+export const isSameScrollProgress = (a: ScrollProgress, b: ScrollProgress): boolean => {
+  if (a.overall !== b.overall) return false;
+  const aKeys = Object.keys(a.sections);
+  if (aKeys.length !== Object.keys(b.sections).length) return false;
+  return aKeys.every((id) => a.sections[id] === b.sections[id]);
+};
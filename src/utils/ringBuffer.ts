@@ -0,0 +1,29 @@
+// 固定容量的环形缓冲区，写满后覆盖最旧的记录
+export interface RingBuffer<T> {
+  push: (item: T) => void;
+  // 按写入顺序（从旧到新）返回所有记录
+  toArray: () => T[];
+  clear: () => void;
+}
+
+// 创建容量为 capacity 的环形缓冲区
+export const createRingBuffer = <T>(capacity: number): RingBuffer<T> => {
+  const items: T[] = [];
+  let start = 0; // 最旧记录的位置
+  return {
+    push: (item) => {
+      if (capacity <= 0) return;
+      if (items.length < capacity) {
+        items.push(item);
+        return;
+      }
+      items[start] = item;
+      start = (start + 1) % capacity;
+    },
+    toArray: () => [...items.slice(start), ...items.slice(0, start)],
+    clear: () => {
+      items.length = 0;
+      start = 0;
+    },
+  };
+};
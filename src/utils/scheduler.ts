@@ -0,0 +1,221 @@
+// 调度后的函数：调用被延迟或合并执行，并可以取消或立即执行
+export interface ScheduledFunction<TArgs extends unknown[]> {
+  (...args: TArgs): void;
+  // 取消尚未执行的调用
+  cancel: () => void;
+  // 立即执行尚未执行的调用（没有时不执行）
+  flush: () => void;
+}
+
+export interface DebounceOptions {
+  // 是否在一连串调用开始时立即执行，默认为 false
+  leading?: boolean;
+  // 是否在一连串调用结束 wait 毫秒后执行最后一次调用，默认为 true
+  trailing?: boolean;
+  // 持续调用时最长的等待时间（毫秒），超过后强制执行一次
+  maxWait?: number;
+}
+
+export interface ThrottleOptions {
+  // 是否在节流周期开始时立即执行，默认为 true
+  leading?: boolean;
+  // 是否在节流周期结束时执行周期内的最后一次调用，默认为 true
+  trailing?: boolean;
+}
+
+// 激活标签的更新调度方式：'debounce' 滚动停止后更新，'throttle' 立即更新并限制频率，'raf' 每个动画帧最多更新一次
+export type UpdateMode = 'debounce' | 'throttle' | 'raf';
+
+// 为函数附加 cancel 和 flush 方法
+const withControls = <TArgs extends unknown[]>(
+  call: (...args: TArgs) => void,
+  cancel: () => void,
+  flush: () => void
+): ScheduledFunction<TArgs> => Object.assign(call, { cancel, flush });
+
+/**
+ * 防抖：一连串调用结束 wait 毫秒后才执行。
+ * @param func - 要执行的函数，使用最后一次调用的参数。
+ * @param wait - 防抖延迟时间（毫秒）。
+ * @param options - （可选）leading、trailing 与 maxWait 配置。
+ * @returns 返回带有 cancel 和 flush 方法的防抖函数。
+ */
+export const debounce = <TArgs extends unknown[]>(
+  func: (...args: TArgs) => unknown,
+  wait: number,
+  options: DebounceOptions = {}
+): ScheduledFunction<TArgs> => {
+  const { leading = false, trailing = true, maxWait } = options;
+  let timeoutId: number | null = null;
+  let maxTimeoutId: number | null = null;
+  let pendingArgs: TArgs | null = null; // 尚未执行的调用参数
+
+  const invoke = () => {
+    const args = pendingArgs;
+    pendingArgs = null;
+    if (args) func(...args);
+  };
+
+  const clearTimers = () => {
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    if (maxTimeoutId !== null) clearTimeout(maxTimeoutId);
+    timeoutId = null;
+    maxTimeoutId = null;
+  };
+
+  // 一连串调用结束
+  const handleWaitEnd = () => {
+    clearTimers();
+    if (trailing) invoke();
+    pendingArgs = null;
+  };
+
+  // 持续调用超过 maxWait，强制执行一次，下一次调用重新开始计时
+  const handleMaxWait = () => {
+    maxTimeoutId = null;
+    invoke();
+  };
+
+  const debounced = (...args: TArgs) => {
+    pendingArgs = args;
+    if (timeoutId === null) {
+      if (leading) invoke(); // 一连串调用的第一次
+    } else {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = window.setTimeout(handleWaitEnd, wait);
+    if (maxWait !== undefined && maxTimeoutId === null) {
+      maxTimeoutId = window.setTimeout(handleMaxWait, maxWait);
+    }
+  };
+
+  return withControls(
+    debounced,
+    () => {
+      clearTimers();
+      pendingArgs = null;
+    },
+    () => {
+      clearTimers();
+      invoke();
+    }
+  );
+};
+
+/**
+ * 节流：每 wait 毫秒最多执行一次。
+ * @param func - 要执行的函数。
+ * @param wait - 节流周期（毫秒）。
+ * @param options - （可选）leading 与 trailing 配置。
+ * @returns 返回带有 cancel 和 flush 方法的节流函数。
+ */
+export const throttle = <TArgs extends unknown[]>(
+  func: (...args: TArgs) => unknown,
+  wait: number,
+  options: ThrottleOptions = {}
+): ScheduledFunction<TArgs> => {
+  const { leading = true, trailing = true } = options;
+  let timeoutId: number | null = null;
+  let lastInvokeTime = 0; // 上一次执行的时间，0 表示尚未执行或已重置
+  let pendingArgs: TArgs | null = null;
+
+  const invoke = () => {
+    const args = pendingArgs;
+    pendingArgs = null;
+    lastInvokeTime = Date.now();
+    if (args) func(...args);
+  };
+
+  // 周期结束时执行周期内的最后一次调用
+  const handleTrailing = () => {
+    timeoutId = null;
+    invoke();
+    // 不执行 leading 时，下一个周期从下一次调用开始计算
+    if (!leading) lastInvokeTime = 0;
+  };
+
+  const throttled = (...args: TArgs) => {
+    const now = Date.now();
+    if (lastInvokeTime === 0 && !leading) lastInvokeTime = now;
+    const remaining = wait - (now - lastInvokeTime);
+    pendingArgs = args;
+    // remaining > wait 说明系统时间被回拨
+    if (remaining <= 0 || remaining > wait) {
+      if (timeoutId !== null) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+      invoke();
+    } else if (timeoutId === null && trailing) {
+      timeoutId = window.setTimeout(handleTrailing, remaining);
+    }
+  };
+
+  return withControls(
+    throttled,
+    () => {
+      if (timeoutId !== null) clearTimeout(timeoutId);
+      timeoutId = null;
+      lastInvokeTime = 0;
+      pendingArgs = null;
+    },
+    () => {
+      if (timeoutId === null) return;
+      clearTimeout(timeoutId);
+      handleTrailing();
+    }
+  );
+};
+
+/**
+ * 动画帧调度：同一帧内的多次调用合并为一次，在下一个动画帧执行。
+ * @param func - 要执行的函数，使用最后一次调用的参数。
+ * @returns 返回带有 cancel 和 flush 方法的调度函数。
+ */
+export const rafSchedule = <TArgs extends unknown[]>(
+  func: (...args: TArgs) => unknown
+): ScheduledFunction<TArgs> => {
+  let frameId: number | null = null;
+  let pendingArgs: TArgs | null = null;
+
+  const invoke = () => {
+    frameId = null;
+    const args = pendingArgs;
+    pendingArgs = null;
+    if (args) func(...args);
+  };
+
+  const scheduled = (...args: TArgs) => {
+    pendingArgs = args;
+    if (frameId === null) frameId = requestAnimationFrame(invoke);
+  };
+
+  return withControls(
+    scheduled,
+    () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+      pendingArgs = null;
+    },
+    () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      invoke();
+    }
+  );
+};
+
+// 按更新调度方式创建调度函数，wait 用于 'debounce' 和 'throttle'
+export const createScheduledFunction = <TArgs extends unknown[]>(
+  mode: UpdateMode,
+  func: (...args: TArgs) => unknown,
+  wait: number
+): ScheduledFunction<TArgs> => {
+  switch (mode) {
+    case 'throttle':
+      return throttle(func, wait);
+    case 'raf':
+      return rafSchedule(func);
+    default:
+      return debounce(func, wait);
+  }
+};
@@ -0,0 +1,125 @@
+import { ScrollRoot, isWindowRoot } from './scrollRoot';
+
+// 编程式滚动的结束方式：'completed' 滚动到达终点，'interrupted' 被用户输入或新的滚动打断
+export type ScrollCompletion = 'completed' | 'interrupted';
+
+// 滚动结束监听器
+export interface ScrollEndWatcher {
+  // 滚动结束或被打断时 resolve
+  promise: Promise<ScrollCompletion>;
+  // 主动取消监听，promise 以 'interrupted' resolve
+  cancel: () => void;
+}
+
+export interface WatchScrollEndOptions {
+  // 滚动位置连续多少帧不变即视为滚动结束（不支持 scrollend 事件时的回退方案）
+  settleFrames?: number;
+  // 最长等待时间（毫秒），超时后视为滚动结束，防止监听器永远挂起
+  timeout?: number;
+}
+
+// 滚动位置连续 8 帧（约 130ms）不变即视为滚动结束
+const DEFAULT_SETTLE_FRAMES = 8;
+// 最长等待 5 秒
+const DEFAULT_TIMEOUT = 5000;
+// 会触发滚动的按键，按下这些键视为用户打断了编程式滚动
+const SCROLL_KEYS = new Set([
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  'PageUp',
+  'PageDown',
+  'Home',
+  'End',
+  ' ',
+]);
+
+// 判断当前浏览器是否支持 scrollend 事件
+const supportsScrollEnd = (): boolean => typeof window !== 'undefined' && 'onscrollend' in window;
+
+/**
+ * 监听用户通过滚轮、触摸或按键接管滚动的操作。
+ * @param onInterrupt - 用户接管滚动时调用。
+ * @returns 返回移除监听器的函数。
+ */
+export const listenForScrollInterruption = (onInterrupt: () => void): (() => void) => {
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (SCROLL_KEYS.has(event.key)) onInterrupt();
+  };
+  window.addEventListener('wheel', onInterrupt, { capture: true, passive: true });
+  window.addEventListener('touchstart', onInterrupt, { capture: true, passive: true });
+  window.addEventListener('keydown', handleKeyDown, true);
+  return () => {
+    window.removeEventListener('wheel', onInterrupt, true);
+    window.removeEventListener('touchstart', onInterrupt, true);
+    window.removeEventListener('keydown', handleKeyDown, true);
+  };
+};
+
+// 读取滚动根在两个轴上的滚动位置，用于判断滚动是否已停止
+const readScrollPosition = (root: ScrollRoot): [number, number] =>
+  isWindowRoot(root) ? [root.scrollX, root.scrollY] : [root.scrollLeft, root.scrollTop];
+
+/**
+ * 监听滚动根上一次编程式滚动的结束。
+ * 优先使用 scrollend 事件，同时以“滚动位置连续若干帧不变”作为回退（也覆盖了目标位置与当前位置相同、不会触发 scrollend 的情况）。
+ * 用户通过滚轮、触摸或按键进行操作时视为打断。
+ * @param root - 正在滚动的滚动根。
+ * @param options - （可选）回退方案与超时配置。
+ * @returns 返回滚动结束监听器。
+ */
+export const watchScrollEnd = (root: ScrollRoot, options: WatchScrollEndOptions = {}): ScrollEndWatcher => {
+  const { settleFrames = DEFAULT_SETTLE_FRAMES, timeout = DEFAULT_TIMEOUT } = options;
+
+  let settled = false;
+  let frameId: number | null = null;
+  let timeoutId: number | null = null;
+  let resolvePromise: (result: ScrollCompletion) => void = () => {};
+  const promise = new Promise<ScrollCompletion>((resolve) => {
+    resolvePromise = resolve;
+  });
+
+  const handleScrollEnd = () => finish('completed');
+  let removeInterruptionListeners: () => void = () => {};
+
+  // 清理所有监听器并 resolve promise（只会生效一次）
+  function finish(result: ScrollCompletion) {
+    if (settled) return;
+    settled = true;
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    root.removeEventListener('scrollend', handleScrollEnd);
+    removeInterruptionListeners();
+    resolvePromise(result);
+  }
+
+  if (supportsScrollEnd()) {
+    root.addEventListener('scrollend', handleScrollEnd);
+  }
+  removeInterruptionListeners = listenForScrollInterruption(() => finish('interrupted'));
+
+  // 回退方案：逐帧检查滚动位置，连续 settleFrames 帧不变即视为结束
+  let [lastX, lastY] = readScrollPosition(root);
+  let stillFrames = 0;
+  const checkSettled = () => {
+    const [x, y] = readScrollPosition(root);
+    if (x === lastX && y === lastY) {
+      stillFrames += 1;
+      if (stillFrames >= settleFrames) {
+        finish('completed');
+        return;
+      }
+    } else {
+      stillFrames = 0;
+      lastX = x;
+      lastY = y;
+    }
+    frameId = requestAnimationFrame(checkSettled);
+  };
+  frameId = requestAnimationFrame(checkSettled);
+
+  timeoutId = window.setTimeout(() => finish('completed'), timeout);
+
+  return { promise, cancel: () => finish('interrupted') };
+};
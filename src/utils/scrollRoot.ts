@@ -0,0 +1,147 @@
+// 滚动轴：'y' 为纵向滚动，'x' 为横向滚动
+export type ScrollAxis = 'x' | 'y';
+
+// 滚动根：可以是一个可滚动的元素容器，也可以是整个窗口（document 滚动）
+export type ScrollRoot = HTMLElement | Window;
+
+// 根据滚动容器元素解析滚动根，未提供容器时回退到 window
+export const resolveScrollRoot = (scrollContainer?: HTMLElement | null): ScrollRoot =>
+  scrollContainer ?? window;
+
+// 判断滚动根是否为 window
+export const isWindowRoot = (root: ScrollRoot): root is Window => root === window;
+
+// 滚动根可视区域相对于视口的矩形（元素容器会扣除边框）
+export interface ScrollRootRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// 获取滚动根可视区域相对于视口的位置和尺寸
+export const getScrollRootRect = (root: ScrollRoot): ScrollRootRect => {
+  if (isWindowRoot(root)) {
+    const docEl = document.documentElement;
+    return { top: 0, left: 0, width: docEl.clientWidth, height: docEl.clientHeight };
+  }
+  const rect = root.getBoundingClientRect();
+  return {
+    top: rect.top + root.clientTop, // 扣除上边框
+    left: rect.left + root.clientLeft, // 扣除左边框
+    width: root.clientWidth,
+    height: root.clientHeight,
+  };
+};
+
+// 判断滚动根的书写方向是否为从右到左（RTL）
+export const isRtlRoot = (root: ScrollRoot): boolean => {
+  const element = isWindowRoot(root) ? document.documentElement : root;
+  return getComputedStyle(element).direction === 'rtl';
+};
+
+// 判断在给定轴上内容是否从滚动根的“末端”开始排列（仅 x 轴 + RTL 时成立）
+// 此时区域的起始边是右边缘，激活线从滚动根的右边缘开始计算
+export const isReversedAxis = (root: ScrollRoot, axis: ScrollAxis): boolean =>
+  axis === 'x' && isRtlRoot(root);
+
+// 获取滚动根在给定轴上当前的滚动位置
+// RTL 容器中 scrollLeft 按规范从 0 开始向负方向递减，这里保持原值，与 scrollTo 使用同一坐标系
+export const getScrollPosition = (root: ScrollRoot, axis: ScrollAxis = 'y'): number => {
+  if (isWindowRoot(root)) {
+    return axis === 'y' ? root.scrollY : root.scrollX;
+  }
+  return axis === 'y' ? root.scrollTop : root.scrollLeft;
+};
+
+// 获取滚动根在给定轴上的可视尺寸
+export const getScrollRootSize = (rect: ScrollRootRect, axis: ScrollAxis): number =>
+  axis === 'y' ? rect.height : rect.width;
+
+// 获取滚动根在给定轴上的起始边在视口中的位置（RTL 的 x 轴为右边缘）
+export const getScrollRootStart = (rect: ScrollRootRect, axis: ScrollAxis, reversed = false): number => {
+  if (axis === 'y') return rect.top;
+  return reversed ? rect.left + rect.width : rect.left;
+};
+
+// 获取元素矩形在给定轴上的起始边位置（RTL 的 x 轴为右边缘）
+export const getRectStart = (
+  rect: Pick<DOMRectReadOnly, 'top' | 'left' | 'right'>,
+  axis: ScrollAxis,
+  reversed = false
+): number => {
+  if (axis === 'y') return rect.top;
+  return reversed ? rect.right : rect.left;
+};
+
+// 计算矩形沿滚动轴相对于滚动根起始边的起止偏移量（RTL 的 x 轴从右边缘向左计算）
+export const getRectSpan = (
+  rect: Pick<DOMRectReadOnly, 'top' | 'bottom' | 'left' | 'right'>,
+  rootRect: ScrollRootRect,
+  axis: ScrollAxis,
+  reversed = false
+): { start: number; end: number } => {
+  if (axis === 'y') {
+    return { start: rect.top - rootRect.top, end: rect.bottom - rootRect.top };
+  }
+  if (reversed) {
+    const rootRight = rootRect.left + rootRect.width;
+    return { start: rootRight - rect.right, end: rootRight - rect.left };
+  }
+  return { start: rect.left - rootRect.left, end: rect.right - rootRect.left };
+};
+
+// 判断滚动根在给定轴上是否已滚动到末端（内容不可滚动时返回 false）
+export const isScrolledToEnd = (root: ScrollRoot, axis: ScrollAxis = 'y'): boolean => {
+  const element = isWindowRoot(root) ? document.documentElement : root;
+  const scrollSize = axis === 'y' ? element.scrollHeight : element.scrollWidth;
+  const clientSize = axis === 'y' ? element.clientHeight : element.clientWidth;
+  if (scrollSize <= clientSize) return false;
+  // RTL 容器中 scrollLeft 为负数，取绝对值；允许 1px 的误差以兼容小数缩放
+  return Math.abs(getScrollPosition(root, axis)) + clientSize >= scrollSize - 1;
+};
+
+// 计算元素起始边在滚动根内容坐标系中的位置
+// 使用 getBoundingClientRect 而不是 offsetTop，这样即使元素的 offsetParent 不是滚动容器（例如位于定位包裹层内）也能得到正确结果
+export const getElementScrollOffset = (
+  element: HTMLElement,
+  root: ScrollRoot,
+  axis: ScrollAxis = 'y',
+  reversed = false
+): number => {
+  const elementStart = getRectStart(element.getBoundingClientRect(), axis, reversed);
+  const rootStart = getScrollRootStart(getScrollRootRect(root), axis, reversed);
+  return elementStart - rootStart + getScrollPosition(root, axis);
+};
+
+// 计算让元素起始边对齐到激活线时滚动根应滚动到的位置
+// RTL 的 x 轴上激活线位于右边缘左侧，因此偏移方向相反
+export const getAlignedScrollPosition = (
+  elementOffset: number,
+  activeLineOffset: number,
+  reversed = false
+): number => (reversed ? elementOffset + activeLineOffset : elementOffset - activeLineOffset);
+
+// 将滚动位置限制在滚动根可滚动的范围内（RTL 的 x 轴范围为 [-最大滚动距离, 0]）
+export const clampScrollPosition = (
+  root: ScrollRoot,
+  position: number,
+  axis: ScrollAxis = 'y',
+  reversed = false
+): number => {
+  const element = isWindowRoot(root) ? document.documentElement : root;
+  const scrollSize = axis === 'y' ? element.scrollHeight : element.scrollWidth;
+  const clientSize = axis === 'y' ? element.clientHeight : element.clientWidth;
+  const maxScroll = Math.max(0, scrollSize - clientSize);
+  return reversed ? Math.min(0, Math.max(-maxScroll, position)) : Math.min(maxScroll, Math.max(0, position));
+};
+
+// 将滚动根在给定轴上滚动到指定位置
+export const scrollRootTo = (
+  root: ScrollRoot,
+  position: number,
+  behavior: ScrollBehavior,
+  axis: ScrollAxis = 'y'
+): void => {
+  root.scrollTo(axis === 'y' ? { top: position, behavior } : { left: position, behavior });
+};
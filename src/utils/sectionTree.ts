@@ -0,0 +1,76 @@
+import type { SectionNode, SectionRef, SectionsDefinition } from '../types';
+
+// 规范化后的区域索引：扁平的 ref 映射，以及父子关系
+export interface SectionIndex {
+  // 区域ID到元素引用的扁平映射，按定义顺序（先序遍历）排列
+  refs: Record<string, SectionRef>;
+  // 区域ID到父区域ID的映射，顶层区域为 null
+  parents: Record<string, string | null>;
+  // 区域ID到直接子区域ID列表的映射
+  children: Record<string, string[]>;
+}
+
+// 将扁平映射或嵌套的区域定义统一规范化为 SectionIndex
+export const normalizeSections = (sections: SectionsDefinition): SectionIndex => {
+  const index: SectionIndex = { refs: {}, parents: {}, children: {} };
+
+  if (!Array.isArray(sections)) {
+    // 扁平映射：所有区域都是顶层区域
+    Object.keys(sections).forEach((id) => {
+      index.refs[id] = sections[id];
+      index.parents[id] = null;
+      index.children[id] = [];
+    });
+    return index;
+  }
+
+  // 嵌套定义：先序遍历，保证父区域排在其子区域之前
+  const visit = (nodes: SectionNode[], parentId: string | null) => {
+    nodes.forEach((node) => {
+      if (node.id in index.refs) {
+        console.warn(`[useScrollSync] Duplicate section id "${node.id}" in sections definition.`);
+        return;
+      }
+      index.refs[node.id] = node.ref;
+      index.parents[node.id] = parentId;
+      index.children[node.id] = (node.children ?? []).map((child) => child.id);
+      if (node.children) visit(node.children, node.id);
+    });
+  };
+  visit(sections, null);
+  return index;
+};
+
+// 判断两个区域索引是否相同：区域ID及其顺序、父子关系和 ref 对象均一致
+export const isSameSectionIndex = (a: SectionIndex, b: SectionIndex): boolean => {
+  const aIds = Object.keys(a.refs);
+  const bIds = Object.keys(b.refs);
+  if (aIds.length !== bIds.length) return false;
+  return aIds.every((id, index) => id === bIds[index] && a.refs[id] === b.refs[id] && a.parents[id] === b.parents[id]);
+};
+
+// 获取从顶层区域到给定区域的完整路径，例如 ['chapter-3', 'chapter-3-2']
+// 不在区域定义中的区域（如通过 registerSection 注册的区域）视为顶层区域
+export const getSectionPath = (sectionId: string, parents: Record<string, string | null>): string[] => {
+  const path: string[] = [];
+  let currentId: string | null = sectionId;
+  while (currentId) {
+    path.unshift(currentId);
+    currentId = parents[currentId] ?? null;
+  }
+  return path;
+};
+
+// 判断 ancestorId 是否为 sectionId 的祖先区域
+export const isAncestorSection = (
+  ancestorId: string,
+  sectionId: string,
+  parents: Record<string, string | null>
+): boolean => {
+  let currentId = parents[sectionId] ?? null;
+  while (currentId) {
+    if (currentId === ancestorId) return true;
+    currentId = parents[currentId] ?? null;
+  }
+  return false;
+};
@@ -0,0 +1,121 @@
+import type {
+  ActiveSectionStrategyFn,
+  ActiveSectionStrategyName,
+  ActiveSectionScoreFn,
+  SectionEntryData,
+} from '../types';
+
+// 内置策略用于排序（或判断）区域的得分，得分越高越优先；调试面板据此展示每个区域的得分
+export const activeSectionStrategyScores: Record<ActiveSectionStrategyName, ActiveSectionScoreFn> = {
+  // 交叉比例
+  'max-ratio': (entry) => entry.intersectionRatio,
+  // 末端边越过激活线的距离，正数表示区域仍在激活线之后
+  'first-below-line': (entry, { activeLineOffset }) => entry.endOffset - activeLineOffset,
+  // 激活区域内的可见像素
+  'max-visible-pixels': (entry) => entry.visibleSizeInZone,
+  // 中心点与可视区域中心距离的相反数
+  'closest-to-center': (entry, { activeLineOffset, viewportSize }) =>
+    -Math.abs((entry.startOffset + entry.endOffset) / 2 - (activeLineOffset + viewportSize) / 2),
+};
+
+// 应用粘性因子：只有当新候选者的得分显著高于当前激活区域的得分时才切换，避免在得分接近的区域之间来回跳动
+const applyStickiness = (
+  topCandidate: SectionEntryData,
+  currentCandidate: SectionEntryData | undefined,
+  getScore: (entry: SectionEntryData) => number,
+  stickinessFactor: number
+): string => {
+  if (
+    currentCandidate &&
+    topCandidate.id !== currentCandidate.id &&
+    getScore(topCandidate) < getScore(currentCandidate) * stickinessFactor
+  ) {
+    return currentCandidate.id; // 保持当前激活的区域
+  }
+  return topCandidate.id;
+};
+
+// 'max-ratio'：先按交叉比例，再按激活线之后的可见尺寸，最后按起始边与激活线的接近程度排序
+const maxRatioStrategy: ActiveSectionStrategyFn = (entries, currentActiveId, { stickinessFactor }) => {
+  // 筛选出当前可见的候选区域
+  const candidates = entries.filter(
+    (entry) =>
+      entry.isIntersecting && // 必须与激活区域交叉
+      entry.visibleSizeBeyondActiveLine > 0 && // 越过激活线后必须有可见尺寸
+      entry.intersectionRatio > 0.05 // 确保至少有5%的交叉比例，以避免微小的交叉触发更新
+  );
+  // 如果没有强可见的候选区域，则不改变激活的区域
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => {
+    // 主要排序：intersectionRatio (降序)
+    if (b.intersectionRatio !== a.intersectionRatio) {
+      return b.intersectionRatio - a.intersectionRatio;
+    }
+    // 次要排序：visibleSizeBeyondActiveLine (降序)
+    if (b.visibleSizeBeyondActiveLine !== a.visibleSizeBeyondActiveLine) {
+      return b.visibleSizeBeyondActiveLine - a.visibleSizeBeyondActiveLine;
+    }
+    // 三级排序：起始边与激活线的接近程度 (升序)
+    return Math.abs(a.distanceToActiveLine) - Math.abs(b.distanceToActiveLine);
+  });
+
+  const currentCandidate = candidates.find((entry) => entry.id === currentActiveId);
+  return applyStickiness(candidates[0], currentCandidate, (entry) => entry.intersectionRatio, stickinessFactor);
+};
+
+// 'first-below-line'：经典 scrollspy，按文档顺序返回第一个末端边仍在激活线之后的区域
+// 结果由区域与激活线的位置唯一确定，不存在得分接近的候选区域，因此不使用粘性因子
+const firstBelowLineStrategy: ActiveSectionStrategyFn = (entries, _currentActiveId, { activeLineOffset }) => {
+  const firstBelowLine = entries.find((entry) => entry.size > 0 && entry.endOffset > activeLineOffset);
+  return firstBelowLine?.id ?? null;
+};
+
+// 'max-visible-pixels'：在激活区域内可见像素最多者优先
+const maxVisiblePixelsStrategy: ActiveSectionStrategyFn = (entries, currentActiveId, { stickinessFactor }) => {
+  const candidates = entries.filter((entry) => entry.visibleSizeInZone > 0);
+  if (candidates.length === 0) return null;
+
+  // 可见像素相同时，优先选择起始边更接近激活线的
+  candidates.sort(
+    (a, b) =>
+      b.visibleSizeInZone - a.visibleSizeInZone ||
+      Math.abs(a.distanceToActiveLine) - Math.abs(b.distanceToActiveLine)
+  );
+
+  const currentCandidate = candidates.find((entry) => entry.id === currentActiveId);
+  return applyStickiness(candidates[0], currentCandidate, (entry) => entry.visibleSizeInZone, stickinessFactor);
+};
+
+// 'closest-to-center'：中心点最接近激活线之后可视区域中心的区域
+const closestToCenterStrategy: ActiveSectionStrategyFn = (entries, currentActiveId, context) => {
+  const candidates = entries.filter((entry) => entry.size > 0 && entry.visibleSizeBeyondActiveLine > 0);
+  if (candidates.length === 0) return null;
+
+  const getScore = (entry: SectionEntryData) => activeSectionStrategyScores['closest-to-center'](entry, context);
+  const closest = candidates.reduce((best, entry) => (getScore(entry) > getScore(best) ? entry : best));
+  const currentCandidate = candidates.find((entry) => entry.id === currentActiveId);
+  // 得分为距离的相反数（不大于 0），不能直接乘以粘性因子，因此换算为随距离减小而增大的正数接近程度
+  const getCloseness = (entry: SectionEntryData) => 1 / (1 - getScore(entry));
+  return applyStickiness(closest, currentCandidate, getCloseness, context.stickinessFactor);
+};
+
+// 内置策略表
+export const activeSectionStrategies: Record<ActiveSectionStrategyName, ActiveSectionStrategyFn> = {
+  'max-ratio': maxRatioStrategy,
+  'first-below-line': firstBelowLineStrategy,
+  'max-visible-pixels': maxVisiblePixelsStrategy,
+  'closest-to-center': closestToCenterStrategy,
+};
+
+// 将策略名称或自定义函数解析为策略函数
+export const resolveActiveSectionStrategy = (
+  strategy: ActiveSectionStrategyName | ActiveSectionStrategyFn
+): ActiveSectionStrategyFn =>
+  typeof strategy === 'function' ? strategy : activeSectionStrategies[strategy];
+
+// 获取策略的得分函数，自定义策略没有得分函数，返回 null
+export const resolveActiveSectionScore = (
+  strategy: ActiveSectionStrategyName | ActiveSectionStrategyFn
+): ActiveSectionScoreFn | null =>
+  typeof strategy === 'function' ? null : activeSectionStrategyScores[strategy];
@@ -0,0 +1,62 @@
+// 虚拟列表的最小结构类型，兼容 @tanstack/react-virtual 与 @tanstack/virtual-core 的 Virtualizer
+export interface VirtualizerLike {
+  // 滚动到指定索引的项，使其被渲染
+  scrollToIndex: (index: number, options?: { align?: 'start' | 'center' | 'end' | 'auto' }) => void;
+  // （可选）获取指定索引的项对齐到起始边时的滚动偏移量
+  getOffsetForIndex?: (
+    index: number,
+    align?: 'start' | 'center' | 'end' | 'auto'
+  ) => readonly [number, ...unknown[]] | undefined;
+}
+
+// 虚拟列表集成回调，可直接展开到 useScrollSync 的选项中
+export interface VirtualSectionAdapter {
+  ensureSectionRendered: (sectionId: string) => void;
+  estimateSectionOffset: (sectionId: string) => number | null;
+}
+
+/**
+ * 逐帧读取 getter 的返回值，直到其不为空或超时。
+ * @param getter - 读取目标值的函数。
+ * @param timeout - 最长等待时间（毫秒）。
+ * @returns 返回读取到的值，超时时返回 null。
+ */
+export const waitForValue = <T>(getter: () => T | null | undefined, timeout: number): Promise<T | null> =>
+  new Promise((resolve) => {
+    const startTime = performance.now();
+    const check = () => {
+      const value = getter();
+      if (value != null) {
+        resolve(value);
+        return;
+      }
+      if (performance.now() - startTime >= timeout) {
+        resolve(null);
+        return;
+      }
+      requestAnimationFrame(check);
+    };
+    check();
+  });
+
+/**
+ * 为 TanStack Virtual 的虚拟列表创建区域集成回调。
+ * 需要虚拟列表与 useScrollSync 使用同一个滚动根，且区域元素在渲染时通过 registerSection 注册。
+ * @param virtualizer - 虚拟列表实例。
+ * @param getSectionIndex - 将区域ID映射为虚拟列表中的索引，找不到时返回 -1。
+ * @returns 返回 ensureSectionRendered 与 estimateSectionOffset 回调。
+ */
+export const createTanStackVirtualSectionAdapter = (
+  virtualizer: VirtualizerLike,
+  getSectionIndex: (sectionId: string) => number
+): VirtualSectionAdapter => ({
+  ensureSectionRendered: (sectionId) => {
+    const index = getSectionIndex(sectionId);
+    if (index >= 0) virtualizer.scrollToIndex(index, { align: 'start' });
+  },
+  estimateSectionOffset: (sectionId) => {
+    const index = getSectionIndex(sectionId);
+    if (index < 0 || !virtualizer.getOffsetForIndex) return null;
+    return virtualizer.getOffsetForIndex(index, 'start')?.[0] ?? null;
+  },
+});
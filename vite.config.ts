@@ -1,12 +1,47 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 import dts from 'vite-plugin-dts';
 import path from 'path';
 
+// 库构建使用经典的 React.createElement JSX 运行时
+// React 的 UMD 包不提供 react/jsx-runtime 对应的全局变量，外部化 react/jsx-runtime 会导致 UMD 构建中的组件无法渲染
+const classicJsxRuntime = (): Plugin => ({
+  name: 'classic-jsx-runtime',
+  apply: 'build',
+  // 放在 react() 之后，覆盖其设置的 automatic 运行时
+  config: () => ({
+    esbuild: {
+      jsx: 'transform',
+      jsxFactory: 'React.createElement',
+      jsxFragment: 'React.Fragment',
+      jsxInject: `import React from 'react'`,
+    },
+  }),
+});
+
+// UMD 构建在没有打包工具的环境中直接运行，不存在 process，访问 process.env.NODE_ENV 会抛出 ReferenceError
+// 因此只在 UMD 产物中为其加上保护，缺少 process 时视为非生产环境；es 与 cjs 产物保留原样，以便使用方的打包工具替换为常量并移除调试代码
+const guardNodeEnvInUmd = (): Plugin => ({
+  name: 'guard-node-env-in-umd',
+  apply: 'build',
+  renderChunk: (code, _chunk, outputOptions) => {
+    if (outputOptions.format !== 'umd') return null;
+    return {
+      code: code.replace(
+        /\bprocess\.env\.NODE_ENV\b/g,
+        `(typeof process !== 'undefined' ? process.env.NODE_ENV : 'development')`
+      ),
+      map: null,
+    };
+  },
+});
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    classicJsxRuntime(),
+    guardNodeEnvInUmd(),
     dts({
       insertTypesEntry: true,
       tsconfigPath: './tsconfig.app.json' // <--- 添加或确保此行存在